@@ -1 +1,5 @@
-#!/usr/bin/env tsx
\ No newline at end of file
+#!/usr/bin/env node
+
+import { runCli } from '../commands';
+
+runCli(process.argv.slice(2));
@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+
+import { runCommand } from '../commands';
+
+runCommand('release', process.argv.slice(2));
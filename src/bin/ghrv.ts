@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+
+import { runCommand } from '../commands';
+
+runCommand('review', process.argv.slice(2));
@@ -0,0 +1,264 @@
+import {
+  chalk,
+  getEnvAnthropicKey,
+  isClaudeCliAvailable,
+  loadConfig,
+  promptForApiKey,
+  verifyApiKey
+} from '../lib/helpers';
+import { getActiveProfile, readCredentials, readUserConfig, saveProfile, updateUserConfig, USER_CONFIG_PATH } from '../lib/config';
+import { ExitCode, exit, fail, setResult } from '../lib/output';
+import { Command, ParsedArgs, ProfileConfig, ProviderName } from '../lib/types';
+
+const PROVIDERS: ProviderName[] = ['anthropic', 'openai', 'claude-cli', 'ollama'];
+
+const PROFILE_SOURCES = { flag: '--profile', env: 'GH_CLAUDE_PROFILE', repo: '.ghclauderc' };
+
+const KEY_PAGES = {
+  anthropic: 'https://console.anthropic.com/settings/keys',
+  openai: 'https://platform.openai.com/api-keys'
+};
+
+/**
+ * Show the start and end of a key, as in `sk-ant-...wxyz`
+ */
+function maskKey(key: string): string {
+  return key.length > 12 ? `${key.slice(0, 7)}...${key.slice(-4)}` : '****';
+}
+
+/**
+ * Which API a provider needs a key for, if any
+ */
+function getKeyProvider(provider?: string): 'anthropic' | 'openai' | null {
+  if (provider === 'openai') {
+    return 'openai';
+  }
+  return provider === 'ollama' || provider === 'claude-cli' ? null : 'anthropic';
+}
+
+/**
+ * Read a key piped to standard input
+ */
+async function readStdin(): Promise<string> {
+  let data = '';
+  process.stdin.setEncoding('utf8');
+  for await (const chunk of process.stdin) {
+    data += chunk;
+  }
+  return data.trim();
+}
+
+/**
+ * Get a new key from standard input with --with-token, otherwise from a prompt
+ */
+async function readNewKey(provider: 'anthropic' | 'openai', withToken: boolean): Promise<string> {
+  if (!withToken) {
+    return promptForApiKey(provider);
+  }
+  const key = await readStdin();
+  if (!key) {
+    throw new Error('No key on standard input');
+  }
+  return key;
+}
+
+/**
+ * Warn when an environment variable will be used instead of the stored key
+ */
+function warnAboutEnvKey(provider: 'anthropic' | 'openai'): void {
+  const env = provider === 'openai'
+    ? (process.env.OPENAI_API_KEY ? 'OPENAI_API_KEY' : null)
+    : getEnvAnthropicKey()?.name;
+  if (env) {
+    console.log(chalk.yellow(`⚠️  ${env} is set and takes precedence over the stored key`));
+  }
+}
+
+/**
+ * The profile's stored settings, or the top-level settings for the default profile
+ */
+async function readProfile(name: string | null): Promise<ProfileConfig | undefined> {
+  const config = await readUserConfig();
+  return name ? config.profiles?.[name] : config;
+}
+
+async function status(): Promise<void> {
+  const active = await getActiveProfile();
+  const config = await loadConfig();
+  const user = await readUserConfig();
+  const provider = process.env.GH_CLAUDE_PROVIDER || config.provider || 'auto';
+
+  console.log(`Profile:  ${chalk.bold(active.name || 'default')}${active.source ? chalk.gray(` (from ${PROFILE_SOURCES[active.source]})`) : ''}`);
+  if (active.name && !user.profiles?.[active.name]) {
+    console.log(chalk.red(`✗ Profile ${active.name} does not exist; create it with: gh-claude auth login --profile ${active.name}`));
+  }
+  console.log(`Provider: ${provider}${config.model ? ` (${config.model})` : ''}`);
+
+  // Same order as the key lookup when a command runs
+  const credentials = await readCredentials(active.name);
+  let keySource: string | null = null;
+  let keyDetail: string;
+  if (provider === 'ollama') {
+    keyDetail = 'none needed';
+  } else if (provider === 'openai') {
+    keySource = process.env.OPENAI_API_KEY ? 'OPENAI_API_KEY' : credentials.openaiApiKey ? 'config' : null;
+    const key = process.env.OPENAI_API_KEY || credentials.openaiApiKey;
+    keyDetail = key ? `${maskKey(key)} (from ${keySource === 'config' ? USER_CONFIG_PATH : keySource})` : 'not set';
+  } else {
+    const env = getEnvAnthropicKey();
+    if (env && provider !== 'claude-cli') {
+      keySource = env.name;
+      keyDetail = `${maskKey(env.key)} (from ${env.name})`;
+    } else if ((provider === 'claude-cli' || (provider === 'auto' && !(process.env.GH_CLAUDE_BASE_URL || config.baseUrl))) && await isClaudeCliAvailable()) {
+      keySource = 'claude-cli';
+      keyDetail = 'Claude CLI login';
+    } else if (credentials.anthropicApiKey) {
+      keySource = 'config';
+      keyDetail = `${maskKey(credentials.anthropicApiKey)} (from ${USER_CONFIG_PATH})`;
+    } else {
+      keyDetail = 'not set; run: gh-claude auth login';
+    }
+  }
+  console.log(`Key:      ${keyDetail}`);
+
+  const names = Object.keys(user.profiles || {});
+  console.log(chalk.bold('\nProfiles:'));
+  for (const name of [null, ...names]) {
+    const profile = name ? user.profiles![name] : user;
+    const key = profile.anthropicApiKey || profile.openaiApiKey;
+    const marker = name === active.name ? '*' : ' ';
+    console.log(`  ${marker} ${(name || 'default').padEnd(12)} ${(profile.provider || 'auto').padEnd(10)} ${key ? maskKey(key) : chalk.gray('no stored key')}`);
+  }
+  console.log(chalk.gray('\nTest the credentials with: gh-claude doctor'));
+
+  setResult({ auth: { profile: active.name, provider, keySource, profiles: ['default', ...names] } });
+}
+
+async function login(args: ParsedArgs): Promise<void> {
+  const { name } = await getActiveProfile();
+  const existing = await readProfile(name);
+  const provider = (args.flags.provider as ProviderName | undefined) || existing?.provider || (await loadConfig()).provider || 'auto';
+  const model = args.flags.model as string | undefined;
+  const changes: ProfileConfig = {
+    ...(args.flags.provider ? { provider } : {}),
+    ...(model ? { model } : {})
+  };
+
+  const keyProvider = getKeyProvider(provider);
+  if (keyProvider) {
+    const key = await readNewKey(keyProvider, !!args.flags['with-token']);
+    console.log(chalk.yellow('⏳ Checking the key...'));
+    await verifyApiKey(keyProvider, key, model);
+    changes[keyProvider === 'openai' ? 'openaiApiKey' : 'anthropicApiKey'] = key;
+  } else if (provider === 'claude-cli' && !(await isClaudeCliAvailable())) {
+    console.log(chalk.yellow('⚠️  The Claude CLI is not installed; install it and run `claude` once to log in'));
+  }
+
+  await saveProfile(name, changes);
+  console.log(chalk.green(`✓ Saved ${name ? `profile ${name}` : 'the default profile'} to ${USER_CONFIG_PATH}`));
+  if (keyProvider) {
+    warnAboutEnvKey(keyProvider);
+  }
+}
+
+async function logout(): Promise<void> {
+  const { name } = await getActiveProfile();
+  const user = await readUserConfig();
+
+  if (name) {
+    if (!user.profiles?.[name]) {
+      throw new Error(`Profile "${name}" does not exist`);
+    }
+    const { [name]: removed, ...profiles } = user.profiles;
+    await updateUserConfig({ profiles: Object.keys(profiles).length > 0 ? profiles : undefined });
+    console.log(chalk.green(`✓ Removed profile ${name} and its keys`));
+    return;
+  }
+
+  if (!user.anthropicApiKey && !user.openaiApiKey) {
+    console.log(chalk.yellow('No stored API keys to remove'));
+    return;
+  }
+  // Undefined values are dropped when the config is written
+  await updateUserConfig({ anthropicApiKey: undefined, openaiApiKey: undefined });
+  console.log(chalk.green('✓ Removed the stored API keys'));
+  if (getEnvAnthropicKey() || process.env.OPENAI_API_KEY) {
+    console.log(chalk.yellow('⚠️  An API key is still set in the environment'));
+  }
+}
+
+async function rotate(args: ParsedArgs): Promise<void> {
+  const { name } = await getActiveProfile();
+  const existing = await readProfile(name);
+  if (!existing) {
+    throw new Error(`Profile "${name}" does not exist`);
+  }
+
+  const keyProvider = getKeyProvider(process.env.GH_CLAUDE_PROVIDER || (await loadConfig()).provider) || 'anthropic';
+  const field = keyProvider === 'openai' ? 'openaiApiKey' : 'anthropicApiKey';
+  const oldKey = existing[field];
+  if (!oldKey) {
+    throw new Error(`No stored ${keyProvider} key to rotate${name ? ` in profile ${name}` : ''}; add one with: gh-claude auth login`);
+  }
+
+  const key = await readNewKey(keyProvider, !!args.flags['with-token']);
+  if (key === oldKey) {
+    throw new Error('The new key is the same as the stored one');
+  }
+  console.log(chalk.yellow('⏳ Checking the new key...'));
+  await verifyApiKey(keyProvider, key);
+  await saveProfile(name, { [field]: key });
+
+  console.log(chalk.green(`✓ Replaced ${maskKey(oldKey)} with ${maskKey(key)}`));
+  console.log(chalk.gray(`  Revoke the old key at ${KEY_PAGES[keyProvider]}`));
+  warnAboutEnvKey(keyProvider);
+}
+
+async function run(args: ParsedArgs): Promise<void> {
+  try {
+    switch (args.positional[0] || 'status') {
+      case 'status':
+        await status();
+        break;
+      case 'login':
+        await login(args);
+        break;
+      case 'logout':
+        await logout();
+        break;
+      case 'rotate':
+        await rotate(args);
+        break;
+      default:
+        console.error(chalk.red(`Usage: gh-claude auth ${auth.usage}`));
+        exit(ExitCode.Usage);
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const auth: Command = {
+  name: 'auth',
+  summary: 'Show, add, rotate or remove AI credentials and profiles',
+  usage: '[status|login|logout|rotate]',
+  description: [
+    'Keys are stored in ~/.gh-claude-tools/config.json, per profile. Pick a profile with',
+    '--profile, GH_CLAUDE_PROFILE or "profile" in .ghclauderc; without one the default',
+    'profile is used. `logout` with a named profile removes the whole profile.'
+  ],
+  flags: [
+    { name: 'provider', value: 'name', choices: PROVIDERS, description: 'Provider for the profile (login)' },
+    { name: 'model', value: 'name', description: 'Model for the profile (login)' },
+    { name: 'with-token', description: 'Read the key from standard input instead of prompting (login, rotate)' }
+  ],
+  subcommands: ['status', 'login', 'logout', 'rotate'],
+  examples: [
+    'gh-claude auth',
+    'gh-claude auth login --profile work --provider anthropic',
+    'echo "$KEY" | gh-claude auth login --with-token',
+    'gh-claude auth rotate --profile personal',
+    'gh-claude commit --profile work'
+  ],
+  run
+};
@@ -0,0 +1,124 @@
+import { loadConfig, chalk, isDebug } from '../lib/helpers';
+import { assumeYes } from '../lib/interactive';
+import { ExitCode, exit, fail, runSubcommand, setResult } from '../lib/output';
+import { describeMergeState, enableAutoMerge, MERGE_STRATEGIES, waitForMerge } from '../lib/merge';
+import { CheckInfo, Command, MergeOutcome, MergeStrategy, ParsedArgs } from '../lib/types';
+
+const DEFAULT_TIMEOUT_MINUTES = 60;
+
+const OUTCOME_EXIT_CODES: Record<MergeOutcome, ExitCode> = {
+  merged: ExitCode.Success,
+  'checks-failed': ExitCode.ChecksFailed,
+  closed: ExitCode.PRClosed,
+  blocked: ExitCode.MergeBlocked,
+  timeout: ExitCode.WaitTimeout
+};
+
+const CHECK_ICONS: Record<string, string> = {
+  pass: chalk.green('✓'),
+  fail: chalk.red('✗'),
+  cancel: chalk.red('✗'),
+  pending: chalk.yellow('…'),
+  skipping: chalk.gray('-')
+};
+
+/**
+ * Print the required checks with their state
+ */
+function printChecks(checks: CheckInfo[]): void {
+  for (const check of checks) {
+    const link = check.bucket === 'fail' || check.bucket === 'cancel' ? chalk.gray(`  ${check.link}`) : '';
+    console.log(`  ${CHECK_ICONS[check.bucket] || chalk.gray('?')} ${check.name}${link}`);
+  }
+}
+
+async function run(args: ParsedArgs): Promise<void> {
+  try {
+    const strategy = (args.flags.strategy as MergeStrategy) || (await loadConfig()).mergeStrategy;
+    const timeoutMinutes = args.flags.timeout ? Number(args.flags.timeout) : DEFAULT_TIMEOUT_MINUTES;
+    if (!(timeoutMinutes > 0)) {
+      console.error(chalk.red('--timeout must be a positive number of minutes'));
+      exit(ExitCode.Usage, '--timeout must be a positive number of minutes');
+    }
+
+    console.log(chalk.blue('🚀 Creating PR with auto-merge...'));
+    
+    // Use ghp to handle commit/push/PR creation
+    const prCode = await runSubcommand('ghp', assumeYes ? ['--yes'] : []);
+    if (prCode !== ExitCode.Success) {
+      exit(prCode);
+    }
+
+    // Enable auto-merge
+    console.log(chalk.yellow(`⏳ Enabling auto-merge (${strategy})...`));
+    try {
+      await enableAutoMerge(strategy);
+      console.log(chalk.green('✓ Auto-merge enabled'));
+      setResult({ autoMerge: { enabled: true, strategy } });
+    } catch (error) {
+      const [reason, ...details] = (error instanceof Error ? error.message : String(error)).split('\n');
+      console.log(chalk.red(`✗ Could not enable auto-merge: ${reason}`));
+      if (details.length > 0 && isDebug) {
+        console.log(chalk.gray(details.join('\n')));
+      }
+      setResult({ autoMerge: { enabled: false, strategy, error: reason } });
+      exit(ExitCode.AutoMergeFailed, reason);
+    }
+
+    if (!args.flags.wait) {
+      return;
+    }
+
+    console.log(chalk.yellow('⏳ Waiting for required checks...'));
+    const result = await waitForMerge(timeoutMinutes * 60 * 1000, pending => {
+      if (pending.length > 0) {
+        console.log(chalk.gray(`   Pending: ${pending.map(check => check.name).join(', ')}`));
+      }
+    });
+    setResult({ merge: result });
+
+    if (result.checks.length > 0) {
+      console.log(chalk.bold('\nRequired checks:'));
+      printChecks(result.checks);
+      console.log('');
+    }
+    switch (result.outcome) {
+      case 'merged':
+        console.log(chalk.green('✅ PR merged'));
+        break;
+      case 'checks-failed':
+        console.log(chalk.red('❌ Required checks failed, so the PR was not merged'));
+        console.log(chalk.gray('   Run `gh run view --log-failed` to see why'));
+        break;
+      case 'closed':
+        console.log(chalk.red('❌ PR was closed without merging'));
+        break;
+      case 'blocked':
+        console.log(chalk.red(`❌ Checks passed but the PR cannot merge: ${describeMergeState(result.mergeState)}`));
+        break;
+      case 'timeout':
+        console.log(chalk.yellow(`⚠️  Gave up waiting after ${timeoutMinutes} minutes; auto-merge is still enabled`));
+        break;
+    }
+    exit(OUTCOME_EXIT_CODES[result.outcome]);
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const automerge: Command = {
+  name: 'automerge',
+  bin: 'ghpa',
+  summary: 'Create or update the PR and enable auto-merge',
+  description: [
+    'Runs `pr`, then enables auto-merge so the PR merges once checks pass. With --wait it',
+    'follows the required checks until the PR merges, a check fails or the timeout passes.'
+  ],
+  flags: [
+    { name: 'strategy', value: 'method', choices: MERGE_STRATEGIES, description: 'Merge method (default: mergeStrategy config or squash)' },
+    { name: 'wait', description: 'Wait for the required checks and report how the merge went' },
+    { name: 'timeout', value: 'minutes', description: `How long --wait waits (default: ${DEFAULT_TIMEOUT_MINUTES})` }
+  ],
+  examples: ['ghpa', 'ghpa --strategy rebase', 'ghpa --wait --timeout 30'],
+  run
+};
@@ -0,0 +1,47 @@
+import { chalk } from '../lib/helpers';
+import { CACHE_DIR, clearCache, getCacheStats } from '../lib/cache';
+import { ExitCode, exit, fail } from '../lib/output';
+import { Command, ParsedArgs } from '../lib/types';
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function run(args: ParsedArgs): Promise<void> {
+  try {
+    switch (args.positional[0] || 'status') {
+      case 'status': {
+        const { entries, bytes } = await getCacheStats();
+        console.log(`${entries} cached responses (${formatSize(bytes)}) in ${CACHE_DIR}`);
+        break;
+      }
+      case 'clear': {
+        const { entries, bytes } = await clearCache();
+        console.log(chalk.green(`✓ Removed ${entries} cached responses (${formatSize(bytes)})`));
+        break;
+      }
+      default:
+        console.error(chalk.red(`Usage: gh-claude cache ${cache.usage}`));
+        exit(ExitCode.Usage);
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const cache: Command = {
+  name: 'cache',
+  summary: 'Show or clear the cache of AI responses',
+  usage: '[status|clear]',
+  description: [
+    'Responses are reused when the prompt, provider, model and input are all unchanged,',
+    'for `cacheTtlHours` (default 24). Pass --no-cache to any command to skip the cache.'
+  ],
+  flags: [],
+  subcommands: ['status', 'clear'],
+  examples: ['gh-claude cache', 'gh-claude cache clear'],
+  run
+};
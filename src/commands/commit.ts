@@ -0,0 +1,113 @@
+import { 
+  getCommitsSince,
+  hasUncommittedChanges, 
+  hasStagedChanges, 
+  stageAllChanges,
+  generateCommitMessage,
+  getCurrentPR,
+  exec,
+  commitWithMessage,
+  chalk,
+  isDebug
+} from '../lib/helpers';
+import { isInteractive, reviewCommitMessage } from '../lib/interactive';
+import { ExitCode, exit, fail, setResult } from '../lib/output';
+import { isAIFailure, splitCommits } from '../lib/split';
+import { Command, ParsedArgs } from '../lib/types';
+
+async function run(args: ParsedArgs): Promise<void> {
+  try {
+    // Check for changes
+    if (!(await hasUncommittedChanges())) {
+      console.log(chalk.green('✅ No changes to commit'));
+      exit(ExitCode.NothingToCommit);
+    }
+
+    const before = await exec('git', ['rev-parse', '--verify', '-q', 'HEAD'], { throwOnError: false });
+
+    // Split mode plans and creates several commits from all changes
+    if (args.flags.split) {
+      let created: number;
+      try {
+        created = await splitCommits();
+      } catch (error) {
+        fail(error, isAIFailure(error) ? ExitCode.AIFailed : ExitCode.Error);
+      }
+      const commits = await getCommitsSince(before);
+      setResult({ commits, commit: commits[commits.length - 1] });
+      if (created > 0) {
+        console.log(chalk.green(`✓ Created ${created} commits`));
+      }
+      exit(created > 0 ? ExitCode.Success : ExitCode.NothingToCommit);
+    }
+
+    // Stage all changes if none are staged
+    if (!(await hasStagedChanges())) {
+      await stageAllChanges();
+    }
+
+    // Get staged diff
+    const diff = await exec('git', ['diff', '--cached']);
+    if (!diff) {
+      console.log(chalk.red('✗ No staged changes to commit'));
+      exit(ExitCode.NothingToCommit);
+    }
+
+    // Generate and commit, letting the user review the message on a TTY
+    let commitMsg: string | null;
+    try {
+      if (isInteractive()) {
+        commitMsg = await reviewCommitMessage(diff);
+      } else {
+        console.log(chalk.yellow('🤖 Generating commit message...'));
+        commitMsg = await generateCommitMessage(diff);
+      }
+    } catch (error) {
+      fail(error, ExitCode.AIFailed);
+    }
+    if (!commitMsg) {
+      console.log(chalk.yellow('✗ Commit aborted'));
+      exit(ExitCode.Error, 'Commit aborted');
+    }
+    console.log(chalk.yellow(`📝 Commit message: ${commitMsg}`));
+
+    try {
+      await commitWithMessage(commitMsg);
+      console.log(chalk.green('✓ Committed successfully'));
+      setResult({ commit: (await getCommitsSince(before)).pop() });
+
+      // Show PR if exists
+      const prUrl = await getCurrentPR();
+      if (prUrl) {
+        console.log(chalk.blue(`📎 PR: ${prUrl}`));
+      }
+      exit(ExitCode.Success);
+    } catch (error) {
+      console.log(chalk.red('✗ Commit failed'));
+      if (error instanceof Error) {
+        if (isDebug) {
+          console.log(chalk.red(`\nError details:`));
+          console.log(chalk.gray(error.message));
+        }
+      }
+      exit(ExitCode.Error, error);
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const commit: Command = {
+  name: 'commit',
+  bin: 'ghc',
+  summary: 'Stage changes and commit with an AI-generated message',
+  description: [
+    'Stages all changes when nothing is staged, then generates a conventional commit message.',
+    'In a terminal you can pick, edit or regenerate one of several candidate messages.'
+  ],
+  flags: [
+    { name: 'split', description: 'Split the changes into several logical commits' }
+  ],
+  examples: ['ghc', 'ghc --split', 'gh-claude commit --yes'],
+  run
+};
@@ -0,0 +1,74 @@
+import { exec, getCurrentPR, loadConfig, withTempFile, chalk, isDebug } from '../lib/helpers';
+import { diagnoseFailures, formatDiagnosisComment, getFailedChecks, getFailedJobLog } from '../lib/ci';
+import { ExitCode, exit, fail } from '../lib/output';
+import { Command, FailedJob, ParsedArgs } from '../lib/types';
+
+async function run(args: ParsedArgs): Promise<void> {
+  try {
+    const prUrl = await getCurrentPR();
+    if (!prUrl) {
+      throw new Error('No PR found for the current branch');
+    }
+
+    console.log(chalk.yellow(`🔍 Checking CI for ${prUrl}...`));
+    const { jobs, external } = await getFailedChecks(prUrl);
+    for (const check of external) {
+      console.log(chalk.gray(`   Skipping ${check.name}: not a GitHub Actions job (${check.link})`));
+    }
+    if (jobs.length === 0) {
+      console.log(chalk.green(external.length > 0 ? '✅ No failed GitHub Actions jobs to diagnose' : '✅ No failed checks'));
+      return;
+    }
+
+    // Split the token budget between the logs, leaving room for the PR diff
+    const maxLogTokens = Math.floor((await loadConfig()).maxPRTokens / 2 / jobs.length);
+    const failedJobs: FailedJob[] = [];
+    for (const job of jobs) {
+      console.log(chalk.yellow(`⏳ Downloading log for ${job.check}...`));
+      try {
+        failedJobs.push({ ...job, log: await getFailedJobLog(job.jobId, maxLogTokens) });
+      } catch (error) {
+        console.log(chalk.yellow(`⚠️  Could not download the log for ${job.check}`));
+        if (error instanceof Error && isDebug) {
+          console.log(chalk.gray(`Error details: ${error.message}`));
+        }
+      }
+    }
+    if (failedJobs.length === 0) {
+      throw new Error('Could not download any failed job logs');
+    }
+
+    console.log(chalk.yellow('🤖 Diagnosing failures...'));
+    let diagnosis: string;
+    try {
+      diagnosis = await diagnoseFailures(failedJobs, prUrl);
+    } catch (error) {
+      fail(error, ExitCode.AIFailed);
+    }
+    console.log(`\n${diagnosis}\n`);
+
+    if (args.flags.comment) {
+      await withTempFile('ci-diagnosis', formatDiagnosisComment(failedJobs, diagnosis), file =>
+        exec('gh', ['pr', 'comment', prUrl, '--body-file', file])
+      ).catch(error => fail(error, ExitCode.PRFailed));
+      console.log(chalk.green('✓ Posted the diagnosis as a PR comment'));
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const diagnose: Command = {
+  name: 'diagnose',
+  bin: 'ghd',
+  summary: 'Explain why the CI checks on the current PR failed',
+  description: [
+    'Downloads the logs of the failed GitHub Actions jobs with `gh run view --log-failed`,',
+    'keeps the lines around the errors and asks Claude for the root cause and the PR files involved.'
+  ],
+  flags: [
+    { name: 'comment', description: 'Post the diagnosis as a PR comment' }
+  ],
+  examples: ['ghd', 'ghd --comment'],
+  run
+};
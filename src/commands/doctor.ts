@@ -0,0 +1,36 @@
+import { chalk } from '../lib/helpers';
+import { printCheck, runDoctorChecks } from '../lib/doctor';
+import { ExitCode, exit, fail, setResult } from '../lib/output';
+import { Command } from '../lib/types';
+
+async function run(): Promise<void> {
+  try {
+    console.log(chalk.blue('🩺 Checking gh-claude setup...\n'));
+    const checks = await runDoctorChecks(printCheck);
+    setResult({ checks });
+
+    const failures = checks.filter(check => check.status === 'fail').length;
+    const warnings = checks.filter(check => check.status === 'warn').length;
+    console.log('');
+    if (failures > 0) {
+      console.log(chalk.red(`✗ ${failures} problems found${warnings > 0 ? `, ${warnings} warnings` : ''}`));
+      exit(ExitCode.Error, `${failures} setup problems found`);
+    }
+    console.log(chalk.green(`✅ Everything looks good${warnings > 0 ? ` (${warnings} warnings)` : ''}`));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const doctor: Command = {
+  name: 'doctor',
+  summary: 'Check the setup and explain how to fix problems',
+  description: [
+    'Checks tool versions, gh login and token scopes, the AI provider (with a tiny test',
+    'request), the git remote, the base branch and config file permissions. Every check',
+    'runs, so one run lists everything to fix. Exits with 1 when any check fails.'
+  ],
+  flags: [],
+  examples: ['gh-claude doctor', 'gh-claude doctor --json'],
+  run
+};
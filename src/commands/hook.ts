@@ -0,0 +1,50 @@
+import { chalk } from '../lib/helpers';
+import { HOOK_NAME, installHook, runPrepareCommitMsg, uninstallHook } from '../lib/hooks';
+import { ExitCode, exit, fail } from '../lib/output';
+import { Command, ParsedArgs } from '../lib/types';
+
+async function run(args: ParsedArgs): Promise<void> {
+  const [action, ...hookArgs] = args.positional;
+
+  try {
+    switch (action) {
+      case 'install': {
+        const { path, updated } = await installHook();
+        console.log(chalk.green(`✓ ${updated ? 'Updated' : 'Installed'} ${HOOK_NAME} hook: ${path}`));
+        console.log(chalk.gray('  `git commit` will now open the editor with a generated message'));
+        break;
+      }
+      case 'uninstall': {
+        const path = await uninstallHook();
+        console.log(path
+          ? chalk.green(`✓ Removed ${HOOK_NAME} hook: ${path}`)
+          : chalk.green(`✅ ${HOOK_NAME} hook is not installed`));
+        break;
+      }
+      case 'run':
+        // Called by git with the message file, the message source and a commit SHA
+        await runPrepareCommitMsg(hookArgs[0], hookArgs[1]);
+        break;
+      default:
+        console.error(chalk.red(`Usage: gh-claude hook ${hook.usage}`));
+        exit(ExitCode.Usage);
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const hook: Command = {
+  name: 'hook',
+  summary: 'Install a git hook so plain `git commit` gets a generated message',
+  usage: '<install|uninstall>',
+  description: [
+    `Installs a ${HOOK_NAME} hook, honouring core.hooksPath and husky, that pre-fills the`,
+    'commit message editor. Commits with -m, merges, squashes and amends are left alone.',
+    'Set GH_CLAUDE_HOOK=0 to skip it for a single commit.'
+  ],
+  flags: [],
+  subcommands: ['install', 'uninstall'],
+  examples: ['gh-claude hook install', 'gh-claude hook uninstall'],
+  run
+};
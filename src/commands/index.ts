@@ -0,0 +1,147 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { Command, ParsedArgs } from '../lib/types';
+import { findCommandIndex, formatCommandHelp, formatFlag, formatRows, GLOBAL_FLAGS, parseArgs } from '../lib/args';
+import { COMPLETION_SHELLS, generateCompletion } from '../lib/completion';
+import { enableJsonOutput, exit, ExitCode, fail, jsonOutput } from '../lib/output';
+import { setUsageCommand } from '../lib/usage';
+import { commit } from './commit';
+import { push } from './push';
+import { pr } from './pr';
+import { automerge } from './automerge';
+import { newBranch } from './new';
+import { stack } from './stack';
+import { release } from './release';
+import { review } from './review';
+import { setupGh } from './setup-gh';
+import { hook } from './hook';
+import { diagnose } from './diagnose';
+import { sync } from './sync';
+import { cache } from './cache';
+import { usage } from './usage';
+import { doctor } from './doctor';
+import { auth } from './auth';
+
+const completion: Command = {
+  name: 'completion',
+  summary: 'Print a shell completion script',
+  usage: `<${COMPLETION_SHELLS.join('|')}>`,
+  description: ['Add the output to your shell startup file, for example:', '  eval "$(gh-claude completion bash)"'],
+  flags: [],
+  subcommands: COMPLETION_SHELLS,
+  examples: [
+    'echo \'eval "$(gh-claude completion bash)"\' >> ~/.bashrc',
+    'echo \'eval "$(gh-claude completion zsh)"\' >> ~/.zshrc',
+    'gh-claude completion fish > ~/.config/fish/completions/gh-claude.fish'
+  ],
+  run: async (args: ParsedArgs) => {
+    process.stdout.write(generateCompletion(args.positional[0] || 'bash', COMMANDS));
+  }
+};
+
+const help: Command = {
+  name: 'help',
+  summary: 'Show help for gh-claude or one of its commands',
+  usage: '[command]',
+  flags: [],
+  run: async (args: ParsedArgs) => {
+    const command = args.positional[0] ? findCommand(args.positional[0]) : null;
+    if (args.positional[0] && !command) {
+      throw new Error(`Unknown command: ${args.positional[0]}`);
+    }
+    console.log(command ? formatCommandHelp(command) : formatMainHelp());
+  }
+};
+
+export const COMMANDS: Command[] = [commit, push, pr, automerge, newBranch, stack, sync, release, review, diagnose, hook, cache, usage, auth, doctor, setupGh, completion, help];
+
+help.subcommands = COMMANDS.map(command => command.name);
+
+/**
+ * Find a command by name or by its standalone binary name
+ */
+export function findCommand(name: string): Command | null {
+  return COMMANDS.find(command => command.name === name || command.bin === name) || null;
+}
+
+/**
+ * Read the version from package.json, which sits two levels above both src/ and dist/ files
+ */
+export async function getVersion(): Promise<string> {
+  const pkg = JSON.parse(await fs.readFile(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+  return pkg.version;
+}
+
+/**
+ * Top-level help listing every command
+ */
+function formatMainHelp(): string {
+  return [
+    'GitHub CLI tools powered by Claude',
+    '',
+    chalk.bold('Usage:'),
+    '  gh-claude <command> [options]',
+    '',
+    chalk.bold('Commands:'),
+    ...formatRows(COMMANDS.map(command => [command.bin ? `${command.name} (${command.bin})` : command.name, command.summary])),
+    '',
+    chalk.bold('Global options:'),
+    ...formatRows(GLOBAL_FLAGS.map(flag => [formatFlag(flag), flag.description])),
+    '',
+    `Run ${chalk.cyan('gh-claude <command> --help')} for details on a command.`
+  ].join('\n');
+}
+
+/**
+ * Parse arguments for a command, handle --help and --version, then run it
+ */
+export async function runCommand(name: string, argv: string[]): Promise<void> {
+  const command = findCommand(name);
+  setUsageCommand(command ? command.name : name);
+  if (jsonOutput) {
+    enableJsonOutput(command ? command.name : name);
+  }
+  if (!command) {
+    console.error(chalk.red(`Unknown command: ${name}`));
+    console.error(`Run ${chalk.cyan('gh-claude --help')} to see the available commands.`);
+    exit(ExitCode.Usage, `Unknown command: ${name}`);
+  }
+
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv, command.flags);
+  } catch (error) {
+    console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+    console.error(`Run ${chalk.cyan(`gh-claude ${command.name} --help`)} for usage.`);
+    exit(ExitCode.Usage, error);
+  }
+
+  if (args.flags.help) {
+    console.log(formatCommandHelp(command));
+    return;
+  }
+  if (args.flags.version) {
+    console.log(await getVersion());
+    return;
+  }
+
+  try {
+    await command.run(args);
+  } catch (error) {
+    fail(error);
+  }
+}
+
+/**
+ * Entry point for `gh-claude <command> [options]`
+ */
+export async function runCli(argv: string[]): Promise<void> {
+  // Global flags may come before the command, as in `gh-claude --debug pr` or `gh-claude --profile work pr`
+  const index = findCommandIndex(argv);
+  if (index === -1) {
+    console.log(argv.includes('--version') ? await getVersion() : formatMainHelp());
+    return;
+  }
+  await runCommand(argv[index], [...argv.slice(0, index), ...argv.slice(index + 1)]);
+}
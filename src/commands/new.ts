@@ -0,0 +1,85 @@
+import { exec, getCurrentBranch, getRemote, getBaseBranch, chalk } from '../lib/helpers';
+import { setParentBranch } from '../lib/stack';
+import { generateBranchName, getIssue, isValidBranchName, parseIssueRef, setBranchIssue } from '../lib/branch';
+import { ask, isInteractive } from '../lib/interactive';
+import { ExitCode, exit } from '../lib/output';
+import { Command, IssueInfo, ParsedArgs } from '../lib/types';
+
+async function run(args: ParsedArgs): Promise<void> {
+  // Unquoted descriptions arrive as several arguments
+  const input = args.positional.join(' ').trim();
+  const stacked = !!args.flags.stack;
+  
+  if (!input) {
+    console.error(chalk.red(`Usage: ghn ${newBranch.usage}`));
+    exit(ExitCode.Usage);
+  }
+
+  try {
+    let branchName = input;
+    let issue: IssueInfo | undefined;
+    const issueNumber = parseIssueRef(input);
+
+    if (issueNumber || /\s/.test(input)) {
+      if (issueNumber) {
+        issue = await getIssue(issueNumber);
+        console.log(chalk.blue(`📋 Issue #${issue.number}: ${issue.title}`));
+      }
+      console.log(chalk.yellow('🤖 Generating branch name...'));
+      branchName = await generateBranchName(issue ? issue.title : input, issue);
+      if (isInteractive()) {
+        branchName = await ask(`Branch name ${chalk.gray(`[${branchName}]`)} `) || branchName;
+      }
+    }
+
+    if (!(await isValidBranchName(branchName))) {
+      throw new Error(`'${branchName}' is not a valid branch name`);
+    }
+
+    if (stacked) {
+      // Branch from the current branch and remember it as the parent
+      const parent = await getCurrentBranch();
+      console.log(chalk.yellow(`⏳ Creating stacked branch '${branchName}' on top of '${parent}'...`));
+      await exec('git', ['checkout', '-b', branchName]);
+      await setParentBranch(branchName, parent);
+      if (issue) {
+        await setBranchIssue(branchName, issue.number);
+      }
+      console.log(chalk.green(`✓ Switched to new branch '${branchName}' (stacked on '${parent}')`));
+      return;
+    }
+
+    const remote = await getRemote();
+    const base = await getBaseBranch();
+    console.log(chalk.yellow(`⏳ Creating new branch '${branchName}' from ${remote}/${base}...`));
+    
+    // Fetch and create branch
+    await exec('git', ['fetch', remote]);
+    await exec('git', ['checkout', '-b', branchName, `${remote}/${base}`]);
+    if (issue) {
+      await setBranchIssue(branchName, issue.number);
+    }
+    
+    console.log(chalk.green(`✓ Switched to new branch '${branchName}'`));
+  } catch (error) {
+    console.log(chalk.red('✗ Failed to create branch'));
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    exit(ExitCode.Error, error);
+  }
+}
+
+export const newBranch: Command = {
+  name: 'new',
+  bin: 'ghn',
+  summary: 'Create a branch from the base branch, an issue or a description',
+  usage: '[--stack] <branch-name | #issue | "description">',
+  description: [
+    'With an issue number or a description, Claude suggests a branch name using the',
+    'configured prefixes, and `pr` links the issue with "Closes #<issue>".'
+  ],
+  flags: [
+    { name: 'stack', description: 'Branch from the current branch and record it as the parent' }
+  ],
+  examples: ['ghn feature-branch-name', "ghn '#123'", 'ghn "add retry to webhook sender"', 'ghn --stack add-api-client'],
+  run
+};
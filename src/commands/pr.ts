@@ -0,0 +1,156 @@
+import { 
+  getCurrentBranch,
+  hasUncommittedChanges,
+  getCurrentPR,
+  getPRContext,
+  generatePRContent,
+  getRemote,
+  loadConfig,
+  exec,
+  isDivergedPushError,
+  withTempFile,
+  chalk,
+  isDebug
+} from '../lib/helpers';
+import { assumeYes } from '../lib/interactive';
+import { ExitCode, exit, fail, runSubcommand, setResult } from '../lib/output';
+import { pushWithSync } from '../lib/sync';
+import { getPullRequest, getTargetBranch, resolveBranchRef, updateStackNavigation } from '../lib/stack';
+import { addIssueLink, getBranchIssue } from '../lib/branch';
+import { formatChangesSinceUpdate, getGeneratedSha, hasGeneratedRegion, replaceGeneratedContent, wrapGeneratedContent } from '../lib/pr-body';
+import { Command } from '../lib/types';
+
+async function run(): Promise<void> {
+  try {
+    const branch = await getCurrentBranch();
+    const remote = await getRemote();
+    // Stacked branches target their parent instead of the base branch
+    const target = await getTargetBranch(branch);
+    // Branches created with `ghn #123` close their issue when merged
+    const issue = await getBranchIssue(branch);
+
+    setResult({ branch });
+
+    // Commit if needed
+    if (await hasUncommittedChanges()) {
+      console.log(chalk.yellow('📝 Uncommitted changes detected...'));
+      const commitCode = await runSubcommand('ghc', assumeYes ? ['--yes'] : []);
+      if (commitCode !== ExitCode.Success && commitCode !== ExitCode.NothingToCommit) {
+        exit(commitCode);
+      }
+    }
+
+    // Push with tracking
+    try {
+      await pushWithSync();
+      console.log(chalk.green(`✓ Pushed to ${remote}/${branch}`));
+      setResult({ pushed: true });
+    } catch (error) {
+      console.log(chalk.red('✗ Push failed'));
+      if (error instanceof Error && isDebug) {
+        console.log(chalk.gray(`Error details: ${error.message}`));
+      }
+      setResult({ pushed: false });
+      exit(isDivergedPushError(error) ? ExitCode.PushDiverged : ExitCode.PushFailed, error);
+    }
+
+    // Check existing PR
+    const existingPR = await getCurrentPR();
+    const sha = await exec('git', ['rev-parse', 'HEAD']) as string;
+
+    if (existingPR) {
+      console.log(chalk.green(`✓ PR already exists: ${existingPR}`));
+      console.log(chalk.yellow('⏳ Auto-updating PR description...'));
+      
+      const pr = await getPullRequest(branch);
+      const currentBody = pr?.body || '';
+      const context = await getPRContext(await resolveBranchRef(target));
+      const prContent = await generatePRContent(context).catch(error => fail(error, ExitCode.AIFailed));
+      let description = prContent.split('\n').slice(2).join('\n');
+      if (issue) {
+        description = addIssueLink(description, issue);
+      }
+
+      if ((await loadConfig()).prChangesSinceUpdate) {
+        const changes = await formatChangesSinceUpdate(getGeneratedSha(currentBody));
+        if (changes) {
+          description = `${description.trim()}\n\n${changes}`;
+        }
+      }
+
+      // Only the generated region is replaced; manual edits around it are kept
+      if (currentBody.trim() && !hasGeneratedRegion(currentBody)) {
+        console.log(chalk.yellow('⚠️  PR description has no gh-claude markers, adding the generated description below it'));
+      }
+      const body = replaceGeneratedContent(currentBody, description, sha);
+      try {
+        await withTempFile('pr-edit', body, file =>
+          exec('gh', ['pr', 'edit', '--body-file', file])
+        );
+      } catch (error) {
+        console.log(chalk.red('✗ Failed to update PR description'));
+        fail(error, ExitCode.PRFailed);
+      }
+      console.log(chalk.green('✓ PR description updated'));
+      setResult({ pr: { url: existingPR, action: 'updated' } });
+    } else {
+      // Create new PR
+      console.log(chalk.yellow('⏳ Creating new PR...'));
+      console.log(chalk.yellow('⏳ Generating PR title and description...'));
+      
+      const context = await getPRContext(await resolveBranchRef(target));
+      const prContent = await generatePRContent(context).catch(error => fail(error, ExitCode.AIFailed));
+      const lines = prContent.split('\n');
+      const title = lines[0];
+      const description = lines.slice(2).join('\n');
+      const body = wrapGeneratedContent(issue ? addIssueLink(description, issue) : description, sha);
+      
+      // Create PR with the body in a temporary file
+      try {
+        if (isDebug) {
+          console.log(chalk.gray(`📝 Creating PR with title: ${title}`));
+        }
+        const prOutput = await withTempFile('pr-body', body, file =>
+          exec('gh', ['pr', 'create', '--title', title, '--body-file', file, '--base', target, '--head', branch])
+        );
+        
+        const prUrl = prOutput?.match(/https:\/\/[^\s]+/)?.[0];
+        if (prUrl) {
+          console.log(chalk.green(`✓ PR created: ${prUrl}`));
+          setResult({ pr: { url: prUrl, action: 'created' } });
+        }
+      } catch (error) {
+        console.log(chalk.red('✗ Failed to create PR'));
+        console.error(error instanceof Error ? error.message : error);
+        exit(ExitCode.PRFailed, error);
+      }
+    }
+
+    // Keep the navigation section in every PR of the stack current
+    try {
+      const updated = await updateStackNavigation(branch);
+      if (updated > 0) {
+        console.log(chalk.green(`✓ Updated stack navigation in ${updated} PRs`));
+      }
+    } catch (error) {
+      console.log(chalk.yellow('⚠️  Could not update stack navigation'));
+      if (error instanceof Error && isDebug) {
+        console.log(chalk.gray(`Error details: ${error.message}`));
+      }
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const pr: Command = {
+  name: 'pr',
+  bin: 'ghp',
+  summary: 'Commit, push and create or update the PR',
+  description: [
+    'Commits any uncommitted changes, pushes the branch, then creates a PR with a generated',
+    'title and description, or refreshes the generated part of an existing PR description.'
+  ],
+  flags: [],
+  run
+};
@@ -0,0 +1,57 @@
+import { 
+  getCurrentBranch,
+  getCurrentPR,
+  getRemote,
+  isDivergedPushError,
+  chalk 
+} from '../lib/helpers';
+import { assumeYes } from '../lib/interactive';
+import { ExitCode, exit, fail, runSubcommand, setResult } from '../lib/output';
+import { pushWithSync } from '../lib/sync';
+import { Command } from '../lib/types';
+
+async function run(): Promise<void> {
+  try {
+    console.log(chalk.blue('🚀 Starting commit and push workflow...'));
+    
+    // Commit, carrying on when there is nothing new to commit
+    const commitCode = await runSubcommand('ghc', assumeYes ? ['--yes'] : []);
+    if (commitCode !== ExitCode.Success && commitCode !== ExitCode.NothingToCommit) {
+      exit(commitCode);
+    }
+
+    // Push
+    const branch = await getCurrentBranch();
+    const remote = await getRemote();
+    setResult({ branch });
+    try {
+      await pushWithSync();
+      console.log(chalk.green(`✓ Pushed to ${remote}/${branch}`));
+      setResult({ pushed: true });
+    } catch (error) {
+      console.log(chalk.red('✗ Push failed'));
+      setResult({ pushed: false });
+      exit(isDivergedPushError(error) ? ExitCode.PushDiverged : ExitCode.PushFailed, error);
+    }
+
+    // Show PR status
+    const prUrl = await getCurrentPR();
+    if (prUrl) {
+      console.log(chalk.blue(`📎 PR: ${prUrl}`));
+      setResult({ pr: { url: prUrl, action: 'unchanged' } });
+    } else {
+      console.log(chalk.yellow('💡 No PR yet. Run \'ghp\' to create one.'));
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const push: Command = {
+  name: 'push',
+  bin: 'ghcp',
+  summary: 'Commit with an AI-generated message and push',
+  description: ['Runs `commit`, pushes the branch and shows its PR if there is one.'],
+  flags: [],
+  run
+};
@@ -0,0 +1,100 @@
+import {
+  exec,
+  generateReleaseNotes,
+  withTempFile,
+  chalk
+} from '../lib/helpers';
+import { confirm, isInteractive } from '../lib/interactive';
+import {
+  CHANGELOG_FILE,
+  collectMergedPRs,
+  collectReleaseCommits,
+  formatReleaseInput,
+  getLatestTag,
+  getReleaseBump,
+  groupCommits,
+  linkPullRequests,
+  suggestNextVersion,
+  updateChangelog
+} from '../lib/release';
+import { fail, setResult } from '../lib/output';
+import { Command, ParsedArgs } from '../lib/types';
+
+async function run(args: ParsedArgs): Promise<void> {
+  const tagOverride = args.flags.tag as string | undefined;
+  const positional = args.positional;
+  const writeChangelog = !!args.flags.changelog;
+  const createRelease = !!args.flags.release;
+  const draft = !!args.flags.draft;
+
+  try {
+    const to = positional[1] || 'HEAD';
+    const from = positional[0] || await getLatestTag(to);
+
+    console.log(chalk.yellow(`🔍 Collecting changes ${from ? `since ${from}` : 'from the first commit'}...`));
+    const commits = await collectReleaseCommits(from, to);
+    if (commits.length === 0) {
+      console.log(chalk.green(`✅ No changes since ${from}`));
+      return;
+    }
+
+    const prs = await collectMergedPRs(from, commits);
+    linkPullRequests(commits, prs);
+    const groups = groupCommits(commits);
+
+    const bump = getReleaseBump(commits);
+    const version = tagOverride || suggestNextVersion(from, bump);
+    console.log(chalk.blue(`\n📦 ${commits.length} commits, ${prs.length} merged PRs`));
+    for (const group of groups) {
+      console.log(chalk.gray(`   ${group.title}: ${group.commits.length}`));
+    }
+    console.log(chalk.blue(`🏷️  ${tagOverride ? 'Version' : `Suggested version (${bump})`}: ${chalk.bold(version)}\n`));
+
+    console.log(chalk.yellow('🤖 Writing release notes...'));
+    const notes = await generateReleaseNotes(formatReleaseInput(groups, prs), version);
+    console.log(`\n${notes}\n`);
+    setResult({ release: { tag: version, notes, url: null } });
+
+    if (writeChangelog) {
+      const date = new Date().toISOString().slice(0, 10);
+      await updateChangelog(version, notes, date);
+      console.log(chalk.green(`✓ Added ${version} to ${CHANGELOG_FILE}`));
+    }
+
+    if (createRelease) {
+      if (isInteractive() && !(await confirm(`Create GitHub release ${version}?`))) {
+        console.log(chalk.yellow('✗ Release not created'));
+        return;
+      }
+      const target = await exec('git', ['rev-parse', to]) as string;
+      const ghArgs = ['release', 'create', version, '--title', version, '--target', target];
+      const output = await withTempFile('release-notes', notes, file =>
+        exec('gh', [...ghArgs, '--notes-file', file, ...(draft ? ['--draft'] : [])])
+      );
+      const url = output?.match(/https:\/\/[^\s]+/)?.[0];
+      console.log(chalk.green(`✓ Release created${url ? `: ${url}` : ''}`));
+      setResult({ release: { tag: version, notes, url: url || null } });
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const release: Command = {
+  name: 'release',
+  bin: 'ghr',
+  summary: 'Write release notes and optionally update the changelog and create a release',
+  usage: '[from] [to]',
+  description: [
+    'Collects the commits and merged PRs between two refs (by default the latest tag and HEAD),',
+    'groups them by conventional commit type and suggests the next semver version.'
+  ],
+  flags: [
+    { name: 'tag', value: 'version', description: 'Use this version instead of the suggested one' },
+    { name: 'changelog', description: 'Add the notes to CHANGELOG.md' },
+    { name: 'release', description: 'Create the GitHub release' },
+    { name: 'draft', description: 'Create the release as a draft' }
+  ],
+  examples: ['ghr', 'ghr v1.2.0 v1.3.0', 'ghr --changelog --release --tag v1.3.0'],
+  run
+};
@@ -0,0 +1,92 @@
+import { exec, loadConfig, chalk } from '../lib/helpers';
+import {
+  SEVERITIES,
+  filterBySeverity,
+  getReviewTarget,
+  postPendingReview,
+  reviewDiff
+} from '../lib/review';
+import { fail } from '../lib/output';
+import { Command, ParsedArgs, ReviewFinding, ReviewSeverity } from '../lib/types';
+
+const SEVERITY_COLORS: Record<ReviewSeverity, (text: string) => string> = {
+  critical: chalk.red.bold,
+  major: chalk.red,
+  minor: chalk.yellow,
+  nit: chalk.gray
+};
+
+/**
+ * Print findings grouped by file
+ */
+function printFindings(findings: ReviewFinding[]): void {
+  const byFile = new Map<string, ReviewFinding[]>();
+  for (const finding of findings) {
+    byFile.set(finding.file, [...(byFile.get(finding.file) || []), finding]);
+  }
+  for (const [file, fileFindings] of byFile) {
+    console.log(chalk.bold(`\n${file}`));
+    for (const finding of fileFindings.sort((a, b) => a.line - b.line)) {
+      console.log(`  ${chalk.gray(`${finding.line}`.padStart(5))}  ${SEVERITY_COLORS[finding.severity](finding.severity.padEnd(8))} ${finding.message}`);
+    }
+  }
+  console.log('');
+}
+
+async function run(args: ParsedArgs): Promise<void> {
+  const prNumber = args.positional[0];
+  const dryRun = !!args.flags['dry-run'];
+
+  try {
+    const threshold = (args.flags.severity as ReviewSeverity) || (await loadConfig()).reviewSeverity;
+    const pr = await getReviewTarget(prNumber);
+    console.log(chalk.yellow(`🔍 Fetching diff for PR #${pr.number}...`));
+    const diff = await exec('gh', ['pr', 'diff', String(pr.number), '--color', 'never']);
+    if (!diff) {
+      console.log(chalk.green('✅ PR has no changes to review'));
+      return;
+    }
+
+    console.log(chalk.yellow('🤖 Reviewing changed files...'));
+    const { files, findings } = await reviewDiff(diff, message => console.log(chalk.gray(`   ${message}`)));
+    const reported = filterBySeverity(findings, threshold);
+    const hidden = findings.length - reported.length;
+    const hiddenNote = hidden > 0 ? chalk.gray(` (${hidden} below ${threshold} hidden)`) : '';
+
+    if (reported.length === 0) {
+      console.log(chalk.green(`✅ No findings at ${threshold} or above`) + hiddenNote);
+      return;
+    }
+
+    console.log(chalk.blue(`\n📝 ${reported.length} findings`) + hiddenNote);
+    printFindings(reported);
+
+    if (dryRun) {
+      console.log(chalk.gray('Dry run: nothing was posted'));
+      return;
+    }
+
+    const { inline, general } = await postPendingReview(pr, files, reported);
+    console.log(chalk.green(`✓ Pending review created with ${inline} inline comments${general > 0 ? ` and ${general} in the summary` : ''}`));
+    console.log(chalk.gray(`  Submit it from ${pr.url}/files`));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const review: Command = {
+  name: 'review',
+  bin: 'ghrv',
+  summary: 'Review a PR with Claude and post the findings as a pending review',
+  usage: '[pr-number]',
+  description: [
+    'Reviews each changed file and posts the findings as inline comments in one pending',
+    'review, which you can edit before submitting. Defaults to the PR for the current branch.'
+  ],
+  flags: [
+    { name: 'dry-run', description: 'Print the findings without posting them' },
+    { name: 'severity', value: 'level', choices: SEVERITIES, description: 'Lowest severity to report' }
+  ],
+  examples: ['ghrv', 'ghrv 123 --dry-run', 'ghrv 123 --severity major'],
+  run
+};
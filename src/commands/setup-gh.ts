@@ -0,0 +1,34 @@
+import { exec, chalk } from '../lib/helpers';
+import { fail } from '../lib/output';
+import { Command } from '../lib/types';
+
+const GH_ALIAS = 'claude';
+
+async function run(): Promise<void> {
+  try {
+    const existing = await exec('gh', ['alias', 'list'], { throwOnError: false });
+    if (existing === null) {
+      throw new Error('GitHub CLI (gh) is not installed or not working');
+    }
+    if (existing.split('\n').some(line => line.startsWith(`${GH_ALIAS}:`))) {
+      console.log(chalk.green(`✅ gh alias '${GH_ALIAS}' already exists`));
+      return;
+    }
+
+    // A shell alias forwards every argument, so `gh claude pr --yes` runs `gh-claude pr --yes`
+    await exec('gh', ['alias', 'set', '--shell', GH_ALIAS, 'gh-claude "$@"']);
+    console.log(chalk.green(`✓ Added gh alias: gh ${GH_ALIAS} <command>`));
+    console.log(chalk.gray(`  Try: gh ${GH_ALIAS} --help`));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const setupGh: Command = {
+  name: 'setup-gh',
+  summary: 'Add a gh alias so `gh claude <command>` works',
+  description: ['Runs `gh alias set --shell claude` to forward `gh claude ...` to `gh-claude ...`.'],
+  flags: [],
+  examples: ['gh-claude setup-gh', 'gh claude pr'],
+  run
+};
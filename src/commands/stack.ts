@@ -0,0 +1,186 @@
+import {
+  getCurrentBranch,
+  hasUncommittedChanges,
+  getRemote,
+  getBaseBranch,
+  exec,
+  chalk,
+  isDebug
+} from '../lib/helpers';
+import {
+  getAllParents,
+  getParentBranch,
+  getPullRequest,
+  getStack,
+  setParentBranch,
+  updateStackNavigation
+} from '../lib/stack';
+import { ExitCode, exit, fail } from '../lib/output';
+import { Command, ParsedArgs, PullRequestInfo } from '../lib/types';
+
+/**
+ * Print the stack containing the current branch with PR numbers and states
+ */
+async function showStack(): Promise<void> {
+  const branch = await getCurrentBranch();
+  const members = await getStack(branch);
+  const base = (await getParentBranch(members[0])) || await getBaseBranch();
+
+  console.log(chalk.blue(`📚 Stack on ${base}:`));
+  for (const [index, member] of members.entries()) {
+    const pr = await getPullRequest(member);
+    const marker = member === branch ? chalk.green('👉') : '  ';
+    const status = pr ? chalk.gray(` #${pr.number} ${pr.state.toLowerCase()}`) : chalk.gray(' (no PR)');
+    console.log(`${marker} ${index + 1}. ${member}${status}`);
+  }
+}
+
+/**
+ * Get the commit a local branch points at, if it exists
+ */
+async function getBranchTip(branch: string): Promise<string | null> {
+  return exec('git', ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`], { throwOnError: false });
+}
+
+/**
+ * Rebase every stacked branch onto its parent, skipping parents that have merged
+ */
+async function restack(): Promise<void> {
+  if (await hasUncommittedChanges()) {
+    throw new Error('Commit or stash your changes before restacking');
+  }
+
+  const original = await getCurrentBranch();
+  const remote = await getRemote();
+  const base = await getBaseBranch();
+
+  console.log(chalk.yellow(`⏳ Fetching ${remote}...`));
+  await exec('git', ['fetch', remote]);
+
+  const parents = await getAllParents();
+  if (parents.size === 0) {
+    console.log(chalk.green('✅ No stacked branches'));
+    return;
+  }
+
+  // Parents before children, and remember every tip before anything moves
+  const depth = (branch: string, seen = new Set<string>()): number => {
+    const parent = parents.get(branch);
+    return parent && parents.has(parent) && !seen.has(parent) ? 1 + depth(parent, seen.add(branch)) : 0;
+  };
+  const order = [...parents.keys()].sort((a, b) => depth(a) - depth(b));
+  const oldTips = new Map<string, string | null>();
+  for (const branch of new Set([...parents.keys(), ...parents.values()])) {
+    oldTips.set(branch, await getBranchTip(branch));
+  }
+
+  const prs = new Map<string, PullRequestInfo | null>();
+  const getPR = async (branch: string) => {
+    if (!prs.has(branch)) {
+      prs.set(branch, await getPullRequest(branch));
+    }
+    return prs.get(branch)!;
+  };
+
+  const rebased = new Set<string>();
+  for (const branch of order) {
+    if (!oldTips.get(branch) || (await getPR(branch))?.state === 'MERGED') {
+      continue;
+    }
+
+    // Skip over merged parents to the first unmerged ancestor, or the base branch
+    const oldParent = parents.get(branch)!;
+    let newParent = oldParent;
+    while (newParent !== base && (await getPR(newParent))?.state === 'MERGED') {
+      newParent = parents.get(newParent) || base;
+    }
+
+    const parentRef = newParent === base ? `${remote}/${base}` : newParent;
+    const upToDate = newParent === oldParent && !rebased.has(oldParent) && (oldParent === base ||
+      await exec('git', ['merge-base', '--is-ancestor', oldParent, branch], { throwOnError: false }) !== null);
+
+    if (!upToDate) {
+      // Replay only the branch's own commits: those after the old parent tip
+      const upstream = (oldParent !== base && oldTips.get(oldParent)) ||
+        await exec('git', ['merge-base', branch, parentRef]);
+      console.log(chalk.yellow(`⏳ Rebasing ${branch} onto ${newParent}...`));
+      try {
+        await exec('git', ['rebase', '--onto', parentRef, upstream!, branch]);
+      } catch (error) {
+        console.log(chalk.red(`\n❌ Rebase of ${branch} stopped with conflicts`));
+        console.log(chalk.yellow('\nTo continue:'));
+        console.log(chalk.gray('  1. Resolve the conflicts and stage the files'));
+        console.log(chalk.gray('  2. Run:  git rebase --continue'));
+        console.log(chalk.gray('  3. Run:  ghs restack   (to finish the rest of the stack)'));
+        console.log(chalk.gray('  To give up: git rebase --abort\n'));
+        if (error instanceof Error && isDebug) {
+          console.log(chalk.gray(`Error details: ${error.message}`));
+        }
+        exit(ExitCode.SyncConflicts, error);
+      }
+      rebased.add(branch);
+      console.log(chalk.green(`✓ Rebased ${branch}`));
+    }
+
+    if (newParent !== oldParent) {
+      await setParentBranch(branch, newParent);
+      parents.set(branch, newParent);
+      const pr = await getPR(branch);
+      if (pr?.state === 'OPEN') {
+        await exec('gh', ['pr', 'edit', String(pr.number), '--base', newParent]);
+        console.log(chalk.green(`✓ Retargeted #${pr.number} to ${newParent}`));
+      }
+    }
+
+    const hasUpstream = await exec('git', ['rev-parse', '--abbrev-ref', `${branch}@{upstream}`], { throwOnError: false });
+    if (rebased.has(branch) && hasUpstream) {
+      await exec('git', ['push', '--force-with-lease', remote, branch]);
+      console.log(chalk.green(`✓ Pushed ${branch}`));
+    }
+  }
+
+  await exec('git', ['checkout', '-q', original]);
+
+  if (parents.has(original)) {
+    const updated = await updateStackNavigation(original);
+    if (updated > 0) {
+      console.log(chalk.green(`✓ Updated stack navigation in ${updated} PRs`));
+    }
+  }
+  console.log(chalk.green(rebased.size > 0 ? `✓ Restacked ${rebased.size} branches` : '✅ Stack is up to date'));
+}
+
+async function run(args: ParsedArgs): Promise<void> {
+  const command = args.positional[0] || 'status';
+
+  try {
+    switch (command) {
+      case 'status':
+        await showStack();
+        break;
+      case 'restack':
+        await restack();
+        break;
+      default:
+        console.error(chalk.red(`Usage: ghs ${stack.usage}`));
+        exit(ExitCode.Usage);
+    }
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const stack: Command = {
+  name: 'stack',
+  bin: 'ghs',
+  summary: 'Show or restack a stack of dependent branches',
+  usage: '[status|restack]',
+  description: [
+    '`status` lists the stack containing the current branch with PR numbers and states.',
+    '`restack` rebases each branch onto its parent, moving branches off merged parents.'
+  ],
+  flags: [],
+  subcommands: ['status', 'restack'],
+  examples: ['ghs', 'ghs restack'],
+  run
+};
@@ -0,0 +1,39 @@
+import { chalk } from '../lib/helpers';
+import { ExitCode, exit, fail } from '../lib/output';
+import { syncBranch } from '../lib/sync';
+import { Command, ParsedArgs } from '../lib/types';
+
+async function run(args: ParsedArgs): Promise<void> {
+  try {
+    const synced = await syncBranch({
+      method: args.flags.merge ? 'merge' : 'rebase',
+      upstream: !!args.flags.upstream,
+      acceptResolutions: !!args.flags['accept-ai-resolutions']
+    });
+    if (!synced) {
+      exit(ExitCode.SyncConflicts, 'Stopped with unresolved conflicts');
+    }
+    console.log(chalk.gray(args.flags.merge || args.flags.upstream
+      ? '  Push with: git push'
+      : '  Push with: git push --force-with-lease'));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const sync: Command = {
+  name: 'sync',
+  summary: 'Rebase or merge onto the base branch, resolving conflicts with Claude',
+  description: [
+    'Fetches, then rebases the branch onto its target (the base branch, or its parent in a stack).',
+    'Claude proposes a resolution for each conflicted file, which you accept, edit or reject.',
+    'Run it again while a rebase or merge is stopped to resume it.'
+  ],
+  flags: [
+    { name: 'merge', description: 'Merge instead of rebasing' },
+    { name: 'upstream', description: 'Sync with the remote copy of this branch instead of its target' },
+    { name: 'accept-ai-resolutions', description: 'Accept every proposed resolution without review, printing each one' }
+  ],
+  examples: ['gh-claude sync', 'gh-claude sync --merge', 'gh-claude sync --upstream'],
+  run
+};
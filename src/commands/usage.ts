@@ -0,0 +1,94 @@
+import { chalk } from '../lib/helpers';
+import { readUsage, totalUsage, USAGE_LOG } from '../lib/usage';
+import { ExitCode, exit, fail, setResult } from '../lib/output';
+import { Command, ParsedArgs, UsageTotals } from '../lib/types';
+
+/**
+ * Format a token count as in `12.3k`
+ */
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+/**
+ * Print totals as an aligned table
+ */
+function printTotals(title: string, totals: UsageTotals[]): void {
+  console.log(chalk.bold(`\n${title}:`));
+  const rows = totals.map(total => [
+    total.key,
+    `${total.calls} calls`,
+    `${formatTokens(total.inputTokens)} in`,
+    `${formatTokens(total.outputTokens)} out`,
+    `$${total.cost.toFixed(2)}${total.unpriced > 0 ? '*' : ''}`,
+    `avg ${(total.latencyMs / total.calls / 1000).toFixed(1)}s`
+  ]);
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  for (const row of rows) {
+    console.log(`  ${row.map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])).join('  ')}`);
+  }
+}
+
+async function run(args: ParsedArgs): Promise<void> {
+  try {
+    const month = args.flags.month as string | undefined;
+    const days = args.flags.days ? Number(args.flags.days) : undefined;
+    if (month && !/^\d{4}-\d{2}$/.test(month)) {
+      console.error(chalk.red('--month must look like 2024-05'));
+      exit(ExitCode.Usage, '--month must look like 2024-05');
+    }
+    if (days !== undefined && !(days > 0)) {
+      console.error(chalk.red('--days must be a positive number'));
+      exit(ExitCode.Usage, '--days must be a positive number');
+    }
+
+    let period: string;
+    let filter: (timestamp: string) => boolean;
+    if (days !== undefined) {
+      const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString();
+      period = `the last ${days} days`;
+      filter = timestamp => timestamp >= since;
+    } else {
+      const selected = month || new Date().toISOString().slice(0, 7);
+      period = selected;
+      filter = timestamp => timestamp.startsWith(selected);
+    }
+
+    const records = (await readUsage()).filter(record => filter(record.timestamp));
+    if (records.length === 0) {
+      console.log(chalk.green(`✅ No AI calls recorded for ${period}`));
+      return;
+    }
+
+    const byDay = totalUsage(records, record => record.timestamp.slice(0, 10));
+    const byRepo = totalUsage(records, record => record.repo || '(no repository)');
+    const [total] = totalUsage(records, () => 'Total');
+    setResult({ usage: { period, byDay, byRepo, total } });
+
+    console.log(chalk.blue(`📊 AI usage for ${period}`));
+    printTotals('By day (UTC)', byDay);
+    printTotals('By repository', byRepo);
+    printTotals('All', [total]);
+    if (total.unpriced > 0) {
+      console.log(chalk.gray(`\n* ${total.unpriced} calls used a model without a known price; set "modelPrices" to include them`));
+    }
+    console.log(chalk.gray(`\nToken counts and costs are estimates. Log: ${USAGE_LOG}`));
+  } catch (error) {
+    fail(error);
+  }
+}
+
+export const usage: Command = {
+  name: 'usage',
+  summary: 'Report AI calls, tokens, latency and estimated cost',
+  description: [
+    'Every AI call is logged with its command, repository, provider, model, estimated tokens,',
+    'latency and cost. Shows totals per day and per repository for a month (the current one by default).'
+  ],
+  flags: [
+    { name: 'month', value: 'YYYY-MM', description: 'Report on this month' },
+    { name: 'days', value: 'n', description: 'Report on the last n days instead of a month' }
+  ],
+  examples: ['gh-claude usage', 'gh-claude usage --month 2024-05', 'gh-claude usage --days 7 --json'],
+  run
+};
@@ -0,0 +1,121 @@
+import chalk from 'chalk';
+import { Command, CommandFlag, ParsedArgs } from './types';
+
+// Flags every command accepts; all but --help and --version are also read directly from argv
+export const GLOBAL_FLAGS: CommandFlag[] = [
+  { name: 'debug', alias: 'd', description: 'Show detailed logging' },
+  { name: 'yes', alias: 'y', description: 'Skip prompts and accept the first generated result' },
+  { name: 'json', description: 'Print a JSON result on stdout and progress on stderr' },
+  { name: 'no-cache', description: 'Always call the model instead of reusing cached responses' },
+  { name: 'profile', value: 'name', description: 'Use a named credentials profile (see gh-claude auth)' },
+  { name: 'help', alias: 'h', description: 'Show help for the command' },
+  { name: 'version', description: 'Show the installed version' }
+];
+
+/**
+ * Find the command name among leading global flags, skipping the values of flags such as `--profile work`
+ *
+ * Returns -1 when there is no command.
+ */
+export function findCommandIndex(argv: string[]): number {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-')) {
+      return i;
+    }
+    const flag = GLOBAL_FLAGS.find(candidate => arg === `--${candidate.name}` || (candidate.alias && arg === `-${candidate.alias}`));
+    if (flag?.value) {
+      i++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse command line arguments against a list of flags
+ *
+ * Supports `--flag`, `-f`, `--flag value`, `--flag=value` and `--` to end
+ * the flags. Unknown flags and invalid values throw.
+ */
+export function parseArgs(argv: string[], flags: CommandFlag[]): ParsedArgs {
+  const all = [...GLOBAL_FLAGS, ...flags];
+  const result: ParsedArgs = { flags: {}, positional: [] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      result.positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      result.positional.push(arg);
+      continue;
+    }
+
+    const [key, inline] = arg.startsWith('--') ? arg.slice(2).split(/=(.*)/s, 2) : [arg.slice(1), undefined];
+    const flag = all.find(candidate => arg.startsWith('--') ? candidate.name === key : candidate.alias === key);
+    if (!flag) {
+      throw new Error(`Unknown option: ${arg}`);
+    }
+
+    if (!flag.value) {
+      if (inline !== undefined) {
+        throw new Error(`Option --${flag.name} does not take a value`);
+      }
+      result.flags[flag.name] = true;
+      continue;
+    }
+
+    const value = inline ?? argv[++i];
+    if (value === undefined || (inline === undefined && value.startsWith('-'))) {
+      throw new Error(`Option --${flag.name} requires a value`);
+    }
+    if (flag.choices && !flag.choices.includes(value)) {
+      throw new Error(`Option --${flag.name} must be one of: ${flag.choices.join(', ')}`);
+    }
+    result.flags[flag.name] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Render one flag for help output, as in `-y, --yes`
+ */
+export function formatFlag(flag: CommandFlag): string {
+  return `${flag.alias ? `-${flag.alias}, ` : '    '}--${flag.name}${flag.value ? ` <${flag.value}>` : ''}`;
+}
+
+/**
+ * Render a list of name/description rows in two aligned columns
+ */
+export function formatRows(rows: Array<[string, string]>): string[] {
+  const width = Math.max(...rows.map(([name]) => name.length));
+  return rows.map(([name, description]) => `  ${name.padEnd(width)}  ${chalk.gray(description)}`);
+}
+
+/**
+ * Help text for a single command
+ */
+export function formatCommandHelp(command: Command): string {
+  const lines = [
+    command.summary,
+    '',
+    chalk.bold('Usage:'),
+    `  gh-claude ${command.name}${command.usage ? ` ${command.usage}` : ''}`
+  ];
+  if (command.bin) {
+    lines.push(`  ${command.bin}${command.usage ? ` ${command.usage}` : ''}`);
+  }
+  if (command.description) {
+    lines.push('', ...command.description);
+  }
+  if (command.flags.length > 0) {
+    lines.push('', chalk.bold('Options:'), ...formatRows(command.flags.map(flag => [formatFlag(flag), flag.description])));
+  }
+  lines.push('', chalk.bold('Global options:'), ...formatRows(GLOBAL_FLAGS.map(flag => [formatFlag(flag), flag.description])));
+  if (command.examples && command.examples.length > 0) {
+    lines.push('', chalk.bold('Examples:'), ...command.examples.map(example => `  ${example}`));
+  }
+  return lines.join('\n');
+}
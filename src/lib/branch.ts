@@ -0,0 +1,131 @@
+import { IssueInfo } from './types';
+import { exec } from './exec';
+import { chalk, executeClaudeCommand, isDebug, loadConfig } from './helpers';
+import { renderTemplate } from './config';
+import { guardSensitiveText } from './secrets';
+
+// Stored as `branch.<name>.ghclaudeIssue` in the local git config
+const ISSUE_KEY = 'ghclaudeIssue';
+
+const MAX_SLUG_LENGTH = 48;
+
+// Issue labels that map to a branch prefix when the model is unavailable
+const LABEL_PREFIXES: Record<string, string> = {
+  bug: 'fix',
+  documentation: 'docs',
+  enhancement: 'feat',
+  feature: 'feat',
+  refactor: 'refactor',
+  chore: 'chore'
+};
+
+const DEFAULT_BRANCH_PROMPT = 'Suggest a git branch name for this work. Use the form "<prefix>/<slug>" where prefix is one of: {{prefixes}}, chosen to match the kind of change. The slug is 2 to 5 lowercase words joined by hyphens that say what changes, for example "fix/login-timeout". {{issueHint}}Output ONLY the branch name.';
+
+/**
+ * Parse `#123` or a GitHub issue URL into an issue number
+ */
+export function parseIssueRef(arg: string): number | null {
+  const match = arg.match(/^#(\d+)$/) || arg.match(/^https:\/\/github\.com\/[^/]+\/[^/]+\/issues\/(\d+)\/?$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Fetch an issue's title, body and labels
+ */
+export async function getIssue(number: number): Promise<IssueInfo> {
+  const output = await exec('gh', ['issue', 'view', String(number), '--json', 'number,title,body,url,labels'], { throwOnError: false });
+  if (!output) {
+    throw new Error(`Could not fetch issue #${number}`);
+  }
+  const issue = JSON.parse(output);
+  return { ...issue, labels: (issue.labels || []).map((label: { name: string }) => label.name) };
+}
+
+/**
+ * Get the issue a branch was created for
+ */
+export async function getBranchIssue(branch: string): Promise<number | null> {
+  const issue = await exec('git', ['config', '--get', `branch.${branch}.${ISSUE_KEY}`], { throwOnError: false });
+  return issue ? parseInt(issue, 10) || null : null;
+}
+
+/**
+ * Record the issue a branch was created for
+ */
+export async function setBranchIssue(branch: string, issue: number): Promise<void> {
+  await exec('git', ['config', `branch.${branch}.${ISSUE_KEY}`, String(issue)]);
+}
+
+/**
+ * Turn free text into a lowercase, hyphenated slug
+ */
+export function slugify(text: string, maxLength = MAX_SLUG_LENGTH): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/['"`]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug.length <= maxLength ? slug : slug.slice(0, maxLength).replace(/-[^-]*$/, '') || slug.slice(0, maxLength);
+}
+
+/**
+ * Check that git accepts a branch name
+ */
+export async function isValidBranchName(name: string): Promise<boolean> {
+  return await exec('git', ['check-ref-format', '--branch', name], { throwOnError: false }) !== null;
+}
+
+/**
+ * Force a suggested name into `<prefix>/[<issue>-]<slug>` with a configured prefix
+ */
+function normalizeBranchName(suggestion: string, fallbackPrefix: string, prefixes: string[], issue?: number): string {
+  const line = suggestion.replace(/`/g, '').trim().split('\n')[0].trim();
+  const [first, ...rest] = line.split('/');
+  const hasPrefix = rest.length > 0 && prefixes.includes(first.toLowerCase());
+  const prefix = hasPrefix ? first.toLowerCase() : fallbackPrefix;
+  let slug = slugify(hasPrefix ? rest.join('-') : line);
+  if (issue && !slug.startsWith(`${issue}-`)) {
+    slug = `${issue}-${slug}`;
+  }
+  return `${prefix}/${slug || 'work'}`;
+}
+
+/**
+ * Generate a branch name from a description, or from an issue
+ *
+ * The model picks the prefix and slug; when it fails, the name is built from
+ * the issue labels and the description instead.
+ */
+export async function generateBranchName(description: string, issue?: IssueInfo): Promise<string> {
+  const config = await loadConfig();
+  const labelPrefix = issue?.labels.map(label => LABEL_PREFIXES[label.toLowerCase()]).find(prefix => prefix && config.branchPrefixes.includes(prefix));
+  const fallbackPrefix = labelPrefix || config.branchPrefixes[0];
+
+  const prompt = renderTemplate(config.prompts.branch || DEFAULT_BRANCH_PROMPT, {
+    prefixes: config.branchPrefixes.join(', '),
+    issueHint: issue ? `It is for issue #${issue.number}; do not include the number, it is added automatically. ` : ''
+  });
+  const input = issue
+    ? `Issue #${issue.number}: ${issue.title}\nLabels: ${issue.labels.join(', ') || 'none'}\n\n${(issue.body || '').slice(0, 2000)}`
+    : description;
+
+  let suggestion = description;
+  try {
+    // Issues often contain pasted logs and tokens
+    suggestion = await executeClaudeCommand(prompt, await guardSensitiveText(input, issue ? 'issue' : 'description'));
+  } catch (error) {
+    console.log(chalk.yellow('⚠️  Could not generate a branch name, deriving one from the description'));
+    if (error instanceof Error && isDebug) {
+      console.log(chalk.gray(`Error details: ${error.message}`));
+    }
+  }
+  return normalizeBranchName(suggestion, fallbackPrefix, config.branchPrefixes, issue?.number);
+}
+
+/**
+ * Append a closing reference to a PR description unless it already has one
+ */
+export function addIssueLink(description: string, issue: number): string {
+  const closing = new RegExp(`\\b(close[sd]?|fix(e[sd])?|resolve[sd]?)\\s+#${issue}\\b`, 'i');
+  return closing.test(description) ? description : `${description.trim()}\n\nCloses #${issue}`;
+}
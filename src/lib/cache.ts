@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { USER_CONFIG_DIR } from './config';
+
+export const CACHE_DIR = path.join(USER_CONFIG_DIR, 'cache');
+
+// Skip the response cache for this run
+export const noCache = process.argv.includes('--no-cache');
+
+interface CacheEntry {
+  createdAt: number;
+  response: string;
+}
+
+/**
+ * Hash everything that determines a response: the rendered prompt, the backend and the input
+ */
+export function getCacheKey(prompt: string, provider: string, model: string | null | undefined, input: string): string {
+  return createHash('sha256').update(JSON.stringify([prompt, provider, model || '', input])).digest('hex');
+}
+
+/**
+ * Read a cached response, or null when it is missing or older than the TTL
+ */
+export async function getCachedResponse(key: string, ttlHours: number): Promise<string | null> {
+  try {
+    const entry: CacheEntry = JSON.parse(await fs.readFile(path.join(CACHE_DIR, `${key}.json`), 'utf8'));
+    return Date.now() - entry.createdAt < ttlHours * 3600 * 1000 ? entry.response : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List cache files with their size and age, oldest first
+ */
+async function listEntries(): Promise<Array<{ file: string; size: number; mtime: number }>> {
+  const names = await fs.readdir(CACHE_DIR).catch(() => [] as string[]);
+  const entries = await Promise.all(names.filter(name => name.endsWith('.json')).map(async name => {
+    const file = path.join(CACHE_DIR, name);
+    const stat = await fs.stat(file).catch(() => null);
+    return stat ? { file, size: stat.size, mtime: stat.mtimeMs } : null;
+  }));
+  return entries
+    .filter((entry): entry is { file: string; size: number; mtime: number } => entry !== null)
+    .sort((a, b) => a.mtime - b.mtime);
+}
+
+/**
+ * Store a response, then drop expired entries and the oldest ones beyond the size limit
+ */
+export async function setCachedResponse(key: string, response: string, ttlHours: number, maxSizeMb: number): Promise<void> {
+  await fs.mkdir(CACHE_DIR, { recursive: true });
+  const entry: CacheEntry = { createdAt: Date.now(), response };
+  await fs.writeFile(path.join(CACHE_DIR, `${key}.json`), JSON.stringify(entry), { mode: 0o600 });
+
+  const entries = await listEntries();
+  let total = entries.reduce((sum, item) => sum + item.size, 0);
+  const expiry = Date.now() - ttlHours * 3600 * 1000;
+  for (const item of entries) {
+    if (item.mtime >= expiry && total <= maxSizeMb * 1024 * 1024) {
+      break;
+    }
+    await fs.unlink(item.file).catch(() => undefined);
+    total -= item.size;
+  }
+}
+
+/**
+ * Number of cached responses and their total size in bytes
+ */
+export async function getCacheStats(): Promise<{ entries: number; bytes: number }> {
+  const entries = await listEntries();
+  return { entries: entries.length, bytes: entries.reduce((sum, item) => sum + item.size, 0) };
+}
+
+/**
+ * Delete every cached response
+ */
+export async function clearCache(): Promise<{ entries: number; bytes: number }> {
+  const stats = await getCacheStats();
+  for (const item of await listEntries()) {
+    await fs.unlink(item.file).catch(() => undefined);
+  }
+  return stats;
+}
@@ -0,0 +1,127 @@
+import { CheckInfo, FailedJob } from './types';
+import { exec } from './exec';
+import { truncateToTokens } from './summarize';
+import { guardSensitiveContent, guardSensitiveText } from './secrets';
+import { executeClaudeCommand, getBaseBranch, loadConfig } from './helpers';
+import { renderTemplate } from './config';
+
+const DEFAULT_DIAGNOSE_PROMPT = 'You are diagnosing failing CI checks on a pull request. The input has the trimmed logs of each failed job, then the files changed in the PR and the PR diff. Explain the most likely root cause, quoting the key error lines. List the files from the PR diff that are most likely involved and what in them matters, then suggest a fix. If the failure looks unrelated to the PR, such as a flaky test, an infrastructure problem or a failure already on the base branch, say so. Respond in Markdown with the sections ### Root cause, ### Likely files and ### Suggested fix, and keep it short.';
+
+const ERROR_PATTERN = /\b(error|errors|failed|failure|fail|exception|traceback|panic|fatal|assertion)\b|✗|✖|exit code [1-9]/i;
+const CONTEXT_BEFORE = 5;
+const CONTEXT_AFTER = 15;
+// The end of a log usually has the test summary and the exit code
+const TAIL_LINES = 20;
+const FAILED_BUCKETS = ['fail', 'cancel'];
+
+/**
+ * Get the failed GitHub Actions jobs of a PR from its checks
+ *
+ * Checks from other CI systems have no Actions job link and are returned separately.
+ */
+export async function getFailedChecks(prUrl: string): Promise<{ jobs: Array<Omit<FailedJob, 'log'>>; external: CheckInfo[] }> {
+  let output: string | null;
+  try {
+    output = await exec('gh', ['pr', 'checks', prUrl, '--json', 'name,bucket,link']);
+  } catch (error: any) {
+    // gh exits non-zero when checks fail, but still prints them
+    output = error.stdout;
+    if (!output) {
+      throw error;
+    }
+  }
+
+  const failed = (JSON.parse(output || '[]') as CheckInfo[]).filter(check => FAILED_BUCKETS.includes(check.bucket));
+  const jobs: Array<Omit<FailedJob, 'log'>> = [];
+  const external: CheckInfo[] = [];
+  for (const check of failed) {
+    const jobId = check.link.match(/\/actions\/runs\/\d+\/job\/(\d+)/)?.[1];
+    if (!jobId) {
+      external.push(check);
+    } else if (!jobs.some(job => job.jobId === jobId)) {
+      jobs.push({ check: check.name, link: check.link, jobId });
+    }
+  }
+  return { jobs, external };
+}
+
+/**
+ * Strip the job name, timestamp and color codes from a `gh run view --log` line
+ */
+function cleanLogLine(line: string): { step: string; text: string } {
+  const parts = line.split('\t');
+  const step = parts.length >= 3 ? parts[1] : '';
+  const text = (parts.length >= 3 ? parts.slice(2).join('\t') : line)
+    .replace(/^\uFEFF?\d{4}-\d\d-\d\dT[\d:.]+Z ?/, '')
+    .replace(/\x1b\[[0-9;]*m/g, '');
+  return { step, text };
+}
+
+/**
+ * Cut a failed job log down to the lines around errors and the end of each step
+ */
+export function trimLog(log: string, maxTokens: number): string {
+  const lines = log.split('\n').filter(Boolean).map(cleanLogLine);
+  const keep = new Set<number>();
+  const keepRange = (from: number, to: number) => {
+    for (let i = Math.max(from, 0); i <= Math.min(to, lines.length - 1); i++) {
+      keep.add(i);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (ERROR_PATTERN.test(line.text)) {
+      keepRange(index - CONTEXT_BEFORE, index + CONTEXT_AFTER);
+    }
+    if (index === lines.length - 1 || lines[index + 1].step !== line.step) {
+      keepRange(index - TAIL_LINES + 1, index);
+    }
+  });
+
+  const output: string[] = [];
+  let previous = -1;
+  let step: string | null = null;
+  for (const index of [...keep].sort((a, b) => a - b)) {
+    if (lines[index].step !== step) {
+      step = lines[index].step;
+      output.push(`--- ${step || 'log'} ---`);
+    } else if (index !== previous + 1) {
+      output.push('...');
+    }
+    output.push(lines[index].text);
+    previous = index;
+  }
+  return truncateToTokens(output.join('\n'), maxTokens, '[log truncated]');
+}
+
+/**
+ * Download and trim the failed steps' log of a job
+ */
+export async function getFailedJobLog(jobId: string, maxTokens: number): Promise<string> {
+  const log = await exec('gh', ['run', 'view', '--job', jobId, '--log-failed']) || '';
+  return trimLog(log, maxTokens);
+}
+
+/**
+ * Ask the model for the likely root cause of the failures and the PR files involved
+ */
+export async function diagnoseFailures(jobs: FailedJob[], prUrl: string): Promise<string> {
+  const config = await loadConfig();
+  const files = await exec('gh', ['pr', 'diff', prUrl, '--name-only']) || '';
+  const diff = await exec('gh', ['pr', 'diff', prUrl, '--color', 'never']) || '';
+
+  // Logs are not diff-formatted, so they are scanned separately, line by line
+  const logs = await guardSensitiveText(jobs.map(job => `## Failed job: ${job.check}\n${job.log}`).join('\n\n'), 'CI logs');
+  const safeDiff = await guardSensitiveContent(truncateToTokens(diff, Math.floor(config.maxPRTokens / 2)));
+  const input = `${logs}\n\n## Files changed in the PR\n${files}\n\n## PR diff\n${safeDiff}`;
+  const prompt = renderTemplate(config.prompts.diagnose || DEFAULT_DIAGNOSE_PROMPT, { baseBranch: await getBaseBranch() });
+  return (await executeClaudeCommand(prompt, input)).trim();
+}
+
+/**
+ * Format a diagnosis as a PR comment
+ */
+export function formatDiagnosisComment(jobs: FailedJob[], diagnosis: string): string {
+  const checks = jobs.map(job => `- [${job.check}](${job.link})`).join('\n');
+  return `## 🔍 CI failure diagnosis\n\nFailed checks:\n${checks}\n\n${diagnosis}`;
+}
@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CommitFooter, CommitLintRules, ParsedCommit } from './types';
+
+export const BODY_WRAP_WIDTH = 72;
+
+const HEADER_PATTERN = /^(\w+)(?:\(([^()\r\n]+)\))?(!)?: (.+)$/;
+const FOOTER_PATTERN = /^(BREAKING[ -]CHANGE|[\w-]+)(?:: | #)(.*)$/;
+
+/**
+ * Split a message into its header, body paragraphs and trailing footer block
+ */
+function splitSections(message: string): { header: string; body: string[]; footers: string[] } {
+  const lines = message.replace(/\r\n/g, '\n').trim().split('\n');
+  const header = lines[0] || '';
+  const paragraphs = lines.slice(1).join('\n').trim().split(/\n\s*\n/).filter(Boolean);
+
+  // The last paragraph is the footer block when it starts with a "Token: value" line
+  let footers: string[] = [];
+  const last = paragraphs[paragraphs.length - 1];
+  if (last && FOOTER_PATTERN.test(last.split('\n')[0]) && !/^[-*] /.test(last)) {
+    footers = last.split('\n');
+    paragraphs.pop();
+  }
+  return { header, body: paragraphs, footers };
+}
+
+/**
+ * Parse a conventional commit message, returning null when the header does not match
+ */
+export function parseCommitMessage(message: string): ParsedCommit | null {
+  const { header, body, footers } = splitSections(message);
+  const match = header.match(HEADER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const parsedFooters: CommitFooter[] = [];
+  for (const line of footers) {
+    const footer = line.match(FOOTER_PATTERN);
+    if (footer) {
+      parsedFooters.push({ token: footer[1], value: footer[2].trim() });
+    } else if (parsedFooters.length > 0) {
+      parsedFooters[parsedFooters.length - 1].value += `\n${line.trim()}`;
+    }
+  }
+
+  return {
+    header,
+    type: match[1],
+    scope: match[2] || null,
+    breaking: !!match[3] || parsedFooters.some(footer => /^BREAKING[ -]CHANGE$/.test(footer.token)),
+    description: match[4],
+    body: body.length > 0 ? body.join('\n\n') : null,
+    footers: parsedFooters
+  };
+}
+
+/**
+ * Check a commit message against the conventional commit rules, returning a list of problems
+ */
+export function lintCommitMessage(message: string, rules: CommitLintRules): string[] {
+  const errors: string[] = [];
+  const lines = message.trim().split('\n');
+  const parsed = parseCommitMessage(message);
+
+  if (!parsed) {
+    return [`header "${lines[0]}" must match "<type>(<scope>): <description>"`];
+  }
+
+  if (!rules.types.includes(parsed.type)) {
+    errors.push(`type "${parsed.type}" must be one of: ${rules.types.join(', ')}`);
+  }
+  if (parsed.header.length > rules.maxSubjectLength) {
+    errors.push(`header is ${parsed.header.length} characters, the maximum is ${rules.maxSubjectLength}`);
+  }
+  if (parsed.scope !== null && !/^[\w./-]+(,[\w./-]+)*$/.test(parsed.scope)) {
+    errors.push(`scope "${parsed.scope}" must be a short identifier without spaces`);
+  }
+  if (/\.$/.test(parsed.description)) {
+    errors.push('description must not end with a period');
+  }
+  if (lines.length > 1 && lines[1].trim() !== '') {
+    errors.push('header must be followed by a blank line');
+  }
+
+  for (const line of lines.slice(1)) {
+    if (line.length > rules.maxBodyLineLength && !/https?:\/\//.test(line)) {
+      errors.push(`body and footer lines must be at most ${rules.maxBodyLineLength} characters`);
+      break;
+    }
+  }
+
+  for (const footer of parsed.footers) {
+    if (!footer.value) {
+      errors.push(`footer "${footer.token}" must have a value`);
+    }
+    if (/^breaking-change$/i.test(footer.token) && footer.token !== 'BREAKING-CHANGE') {
+      errors.push('breaking change footer must be written as "BREAKING CHANGE:"');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Wrap a paragraph to the given width, leaving list items and indented lines intact
+ */
+export function wrapText(text: string, width: number): string {
+  return text.split('\n').map(line => {
+    if (line.length <= width || /^\s/.test(line) || /https?:\/\//.test(line)) {
+      return line;
+    }
+    const bullet = line.match(/^([-*] |\d+\. )/);
+    const indent = bullet ? ' '.repeat(bullet[1].length) : '';
+    const wrapped: string[] = [];
+    let current = '';
+    for (const word of line.split(/\s+/)) {
+      if (current && (current + ' ' + word).length > width) {
+        wrapped.push(current);
+        current = indent + word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) {
+      wrapped.push(current);
+    }
+    return wrapped.join('\n');
+  }).join('\n');
+}
+
+/**
+ * Normalize a generated commit message: trim, separate sections and wrap the body
+ */
+export function formatCommitMessage(message: string): string {
+  const cleaned = message
+    .replace(/^```\w*\n?/, '')
+    .replace(/\n?```\s*$/, '')
+    .trim();
+  const { header, body, footers } = splitSections(cleaned);
+  const sections = [header.trim()];
+  for (const paragraph of body) {
+    sections.push(wrapText(paragraph.trim(), BODY_WRAP_WIDTH));
+  }
+  if (footers.length > 0) {
+    sections.push(footers.join('\n'));
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Read the workspace package directories declared in the root package.json
+ */
+async function getWorkspaces(root: string): Promise<Array<{ dir: string; name: string }>> {
+  let patterns: string[] = [];
+  try {
+    const pkg = JSON.parse(await fs.readFile(path.join(root, 'package.json'), 'utf8'));
+    patterns = Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces?.packages || [];
+  } catch {
+    return [];
+  }
+
+  const workspaces: Array<{ dir: string; name: string }> = [];
+  for (const pattern of patterns) {
+    // Support the common "dir/*" and plain "dir" forms
+    const dirs = pattern.endsWith('/*')
+      ? await fs.readdir(path.join(root, pattern.slice(0, -2))).then(
+          entries => entries.map(entry => `${pattern.slice(0, -2)}/${entry}`),
+          () => []
+        )
+      : [pattern];
+    for (const dir of dirs) {
+      try {
+        const pkg = JSON.parse(await fs.readFile(path.join(root, dir, 'package.json'), 'utf8'));
+        workspaces.push({ dir, name: String(pkg.name || path.basename(dir)).replace(/^@[^/]+\//, '') });
+      } catch {
+        // Not a package directory
+      }
+    }
+  }
+  return workspaces;
+}
+
+/**
+ * Infer a commit scope from the changed files
+ *
+ * Prefers a single workspace package, then a single top-level directory.
+ */
+export async function inferScope(files: string[], root: string): Promise<string | null> {
+  if (files.length === 0) {
+    return null;
+  }
+
+  const workspaces = await getWorkspaces(root);
+  if (workspaces.length > 0) {
+    const names = new Set(files.map(file =>
+      workspaces.find(workspace => file.startsWith(`${workspace.dir}/`))?.name || null
+    ));
+    if (names.size === 1) {
+      const [name] = [...names];
+      if (name) {
+        return name;
+      }
+    }
+  }
+
+  const topLevel = new Set(files.map(file => file.includes('/') ? file.split('/')[0] : null));
+  if (topLevel.size === 1) {
+    const [dir] = [...topLevel];
+    // A scope like "src" says nothing about the change, so look one level down
+    if (dir === 'src' && files.every(file => file.split('/').length > 2)) {
+      const second = new Set(files.map(file => file.split('/')[1]));
+      return second.size === 1 ? [...second][0] : null;
+    }
+    return dir;
+  }
+  return null;
+}
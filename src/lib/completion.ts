@@ -0,0 +1,151 @@
+import { Command, CommandFlag } from './types';
+import { GLOBAL_FLAGS } from './args';
+
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'];
+
+/**
+ * Quote text for a single-quoted shell string
+ */
+function quote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * All flag spellings a command accepts, for word lists
+ */
+function flagWords(command: Command): string {
+  return [...command.flags, ...GLOBAL_FLAGS]
+    .flatMap(flag => [`--${flag.name}`, ...(flag.alias ? [`-${flag.alias}`] : [])])
+    .join(' ');
+}
+
+/**
+ * Bash completion: subcommands for gh-claude, then flags and fixed values per command
+ */
+function bashCompletion(commands: Command[]): string {
+  const cases = commands.map(command => {
+    const valueCases = command.flags
+      .filter(flag => flag.choices)
+      .map(flag => `        --${flag.name}) COMPREPLY=( $(compgen -W ${quote(flag.choices!.join(' '))} -- "$cur") ); return ;;`);
+    const words = [flagWords(command), ...(command.subcommands || [])].join(' ');
+    return [
+      `    ${command.name})`,
+      ...(valueCases.length > 0 ? ['      case "$prev" in', ...valueCases, '      esac'] : []),
+      `      COMPREPLY=( $(compgen -W ${quote(words)} -- "$cur") ) ;;`
+    ].join('\n');
+  });
+  const aliases = commands.filter(command => command.bin).map(command => `    ${command.bin}) cmd=${command.name} ;;`);
+  const bins = commands.filter(command => command.bin).map(command => command.bin).join(' ');
+
+  return `# gh-claude bash completion
+_gh_claude() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" prev="\${COMP_WORDS[COMP_CWORD-1]}" cmd
+  case "\${COMP_WORDS[0]##*/}" in
+${aliases.join('\n')}
+    *)
+      if [ "$COMP_CWORD" -eq 1 ]; then
+        COMPREPLY=( $(compgen -W ${quote(commands.map(command => command.name).join(' '))} -- "$cur") )
+        return
+      fi
+      cmd="\${COMP_WORDS[1]}" ;;
+  esac
+  case "$cmd" in
+${cases.join('\n')}
+  esac
+}
+complete -F _gh_claude gh-claude ${bins}
+`;
+}
+
+/**
+ * One zsh `_arguments` spec for a flag
+ */
+function zshFlag(flag: CommandFlag): string {
+  const description = flag.description.replace(/[[\]:]/g, '');
+  const value = flag.value ? `:${flag.value}:${flag.choices ? `(${flag.choices.join(' ')})` : ''}` : '';
+  const names = flag.alias ? `{-${flag.alias},--${flag.name}}` : `--${flag.name}`;
+  return flag.alias ? `${names}'[${description}]${value}'` : quote(`${names}[${description}]${value}`);
+}
+
+/**
+ * Zsh completion with descriptions for subcommands and flags
+ */
+function zshCompletion(commands: Command[]): string {
+  const described = commands.map(command => quote(`${command.name}:${command.summary.replace(/:/g, '')}`));
+  const cases = commands.map(command => {
+    const specs = [...command.flags, ...GLOBAL_FLAGS].map(zshFlag);
+    if (command.subcommands) {
+      specs.push(quote(`1:${command.name}:(${command.subcommands.join(' ')})`));
+    }
+    return `    ${command.name}) _arguments -s ${specs.join(' ')} ;;`;
+  });
+  const aliases = commands.filter(command => command.bin).map(command => `    ${command.bin}) cmd=${command.name} ;;`);
+  const bins = commands.filter(command => command.bin).map(command => command.bin).join(' ');
+
+  return `#compdef gh-claude ${bins}
+_gh_claude() {
+  local cmd
+  local -a commands
+  commands=(${described.join(' ')})
+  case "$service" in
+${aliases.join('\n')}
+    *)
+      if (( CURRENT == 2 )); then
+        _describe 'command' commands
+        return
+      fi
+      cmd="$words[2]"
+      shift words
+      (( CURRENT-- )) ;;
+  esac
+  case "$cmd" in
+${cases.join('\n')}
+  esac
+}
+compdef _gh_claude gh-claude ${bins}
+`;
+}
+
+/**
+ * Fish completion for gh-claude subcommands and each standalone binary
+ */
+function fishCompletion(commands: Command[]): string {
+  const lines = ['# gh-claude fish completion', 'complete -c gh-claude -f'];
+  for (const command of commands) {
+    lines.push(`complete -c gh-claude -n __fish_use_subcommand -a ${command.name} -d ${quote(command.summary)}`);
+  }
+
+  for (const command of commands) {
+    const targets = [`-c gh-claude -n ${quote(`__fish_seen_subcommand_from ${command.name}`)}`];
+    if (command.bin) {
+      targets.push(`-c ${command.bin}`);
+    }
+    for (const target of targets) {
+      for (const flag of [...command.flags, ...GLOBAL_FLAGS]) {
+        const alias = flag.alias ? ` -s ${flag.alias}` : '';
+        const value = flag.value ? ` -r${flag.choices ? ` -f -a ${quote(flag.choices.join(' '))}` : ''}` : '';
+        lines.push(`complete ${target} -l ${flag.name}${alias}${value} -d ${quote(flag.description)}`);
+      }
+      if (command.subcommands) {
+        lines.push(`complete ${target} -f -a ${quote(command.subcommands.join(' '))}`);
+      }
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Generate a completion script for a shell
+ */
+export function generateCompletion(shell: string, commands: Command[]): string {
+  switch (shell) {
+    case 'bash':
+      return bashCompletion(commands);
+    case 'zsh':
+      return zshCompletion(commands);
+    case 'fish':
+      return fishCompletion(commands);
+    default:
+      throw new Error(`Unsupported shell: ${shell}. Use one of: ${COMPLETION_SHELLS.join(', ')}`);
+  }
+}
@@ -0,0 +1,257 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import chalk from 'chalk';
+import { ActiveProfile, ProfileConfig, ProfileCredentials, ProviderSettings, RepoConfig, SecretScanMode, ToolConfig, UserConfig } from './types';
+import { exec } from './exec';
+
+export const USER_CONFIG_DIR = path.join(os.homedir(), '.gh-claude-tools');
+export const USER_CONFIG_PATH = path.join(USER_CONFIG_DIR, 'config.json');
+export const REPO_CONFIG_FILE = '.ghclauderc';
+
+export const DEFAULT_COMMIT_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'test', 'chore'];
+
+const DEFAULT_CONFIG: ToolConfig = {
+  remote: 'origin',
+  commitTypes: DEFAULT_COMMIT_TYPES,
+  maxSubjectLength: 72,
+  validateCommits: true,
+  commitStyle: 'auto',
+  maxCommitTokens: 4000,
+  maxPRTokens: 8000,
+  summaryConcurrency: 4,
+  secretScan: 'block',
+  prChangesSinceUpdate: true,
+  reviewSeverity: 'minor',
+  branchPrefixes: ['feat', 'fix', 'docs', 'refactor', 'test', 'chore'],
+  mergeStrategy: 'squash',
+  cacheTtlHours: 24,
+  cacheMaxSizeMb: 50,
+  modelPrices: {},
+  prompts: {}
+};
+
+/**
+ * Read the user-level config file, returning an empty config if it is missing
+ */
+export async function readUserConfig(): Promise<UserConfig> {
+  try {
+    return JSON.parse(await fs.readFile(USER_CONFIG_PATH, 'utf8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Merge changes into the user-level config file, keeping it private to the user
+ */
+export async function updateUserConfig(changes: Partial<UserConfig>): Promise<void> {
+  const config = { ...(await readUserConfig()), ...changes };
+  await fs.mkdir(USER_CONFIG_DIR, { recursive: true });
+  await fs.writeFile(USER_CONFIG_PATH, JSON.stringify(config, null, 2));
+  await fs.chmod(USER_CONFIG_PATH, 0o600); // Secure file permissions
+}
+
+/**
+ * Read the value of --profile from the command line, which any command accepts
+ */
+function readProfileFlag(argv: string[]): string | undefined {
+  const index = argv.findIndex(arg => arg === '--profile' || arg.startsWith('--profile='));
+  if (index === -1) {
+    return undefined;
+  }
+  return argv[index] === '--profile' ? argv[index + 1] : argv[index].slice('--profile='.length);
+}
+
+export const profileFlag = readProfileFlag(process.argv);
+
+/**
+ * Pick the profile for this run: --profile, then GH_CLAUDE_PROFILE, then `profile` in .ghclauderc
+ */
+export async function getActiveProfile(): Promise<ActiveProfile> {
+  if (profileFlag) {
+    return { name: profileFlag, source: 'flag' };
+  }
+  if (process.env.GH_CLAUDE_PROFILE) {
+    return { name: process.env.GH_CLAUDE_PROFILE, source: 'env' };
+  }
+  const { profile } = await readRepoConfig();
+  return profile ? { name: profile, source: 'repo' } : { name: null, source: null };
+}
+
+/**
+ * Read the stored API keys of a profile, or the top-level keys for the default profile
+ */
+export async function readCredentials(profile: string | null): Promise<ProfileCredentials> {
+  const config = await readUserConfig();
+  const source = profile ? config.profiles?.[profile] || {} : config;
+  return { anthropicApiKey: source.anthropicApiKey, openaiApiKey: source.openaiApiKey };
+}
+
+/**
+ * Merge keys and provider settings into a profile, creating it if needed
+ */
+export async function saveProfile(profile: string | null, changes: ProfileConfig): Promise<void> {
+  if (!profile) {
+    await updateUserConfig(changes);
+    return;
+  }
+  const { profiles = {} } = await readUserConfig();
+  await updateUserConfig({ profiles: { ...profiles, [profile]: { ...profiles[profile], ...changes } } });
+}
+
+/**
+ * Get the root of the current git repository, if any
+ */
+export async function getRepoRoot(): Promise<string | null> {
+  const root = await exec('git', ['rev-parse', '--show-toplevel'], { throwOnError: false });
+  return root?.trim() || null;
+}
+
+/**
+ * Read the repo-level .ghclauderc file from the repository root
+ */
+export async function readRepoConfig(): Promise<RepoConfig> {
+  const root = await getRepoRoot();
+  if (!root) {
+    return {};
+  }
+
+  const configPath = path.join(root, REPO_CONFIG_FILE);
+  let contents: string;
+  try {
+    contents = await fs.readFile(configPath, 'utf8');
+  } catch {
+    return {};
+  }
+
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * The provider settings of a profile, without its keys
+ */
+function getProfileSettings(profile?: ProfileConfig): ProviderSettings {
+  const { anthropicApiKey, openaiApiKey, ...settings } = profile || {};
+  return settings;
+}
+
+// Where prompts, diffs and API keys are sent is the user's choice, never a cloned repository's
+const REPO_IGNORED_KEYS: Array<keyof RepoConfig> = ['provider', 'baseUrl', 'model'];
+
+/**
+ * Drop the provider settings from a repo config, warning about any that were set
+ */
+function stripProviderSettings(repoConfig: RepoConfig): RepoConfig {
+  const ignored = REPO_IGNORED_KEYS.filter(key => repoConfig[key] !== undefined);
+  if (ignored.length === 0) {
+    return repoConfig;
+  }
+  console.log(chalk.yellow(`⚠️  Ignoring ${ignored.map(key => `"${key}"`).join(', ')} in ${REPO_CONFIG_FILE}; set them in ${USER_CONFIG_PATH}, a profile or GH_CLAUDE_* variables`));
+  const safe = { ...repoConfig };
+  for (const key of ignored) {
+    delete safe[key];
+  }
+  return safe;
+}
+
+// A repository may make secret scanning stricter, never weaker
+const SECRET_SCAN_STRICTNESS: SecretScanMode[] = ['off', 'redact', 'block'];
+
+/**
+ * Drop a repo's `secretScan` when it is weaker than the user's setting, warning about it
+ */
+function limitSecretScan(repoConfig: RepoConfig, userMode: SecretScanMode): RepoConfig {
+  const repoMode = repoConfig.secretScan;
+  if (!repoMode || SECRET_SCAN_STRICTNESS.indexOf(repoMode) >= SECRET_SCAN_STRICTNESS.indexOf(userMode)) {
+    return repoConfig;
+  }
+  console.log(chalk.yellow(`⚠️  Ignoring "secretScan": "${repoMode}" in ${REPO_CONFIG_FILE}; a repository can only make scanning stricter than "${userMode}". Set it in ${USER_CONFIG_PATH} instead`));
+  const { secretScan, ...safe } = repoConfig;
+  return safe;
+}
+
+let configPromise: Promise<ToolConfig> | null = null;
+
+/**
+ * Load the effective config: defaults, then user config, then repo config
+ */
+export function loadConfig(): Promise<ToolConfig> {
+  if (!configPromise) {
+    configPromise = (async () => {
+      const { anthropicApiKey, openaiApiKey, profiles, ...userConfig } = await readUserConfig();
+      // A profile's provider settings override the user config
+      const { name } = await getActiveProfile();
+      const profileSettings = getProfileSettings(name ? profiles?.[name] : undefined);
+      const repoConfig = limitSecretScan(
+        stripProviderSettings(await readRepoConfig()),
+        userConfig.secretScan || DEFAULT_CONFIG.secretScan
+      );
+      return {
+        ...DEFAULT_CONFIG,
+        ...userConfig,
+        ...profileSettings,
+        ...repoConfig,
+        profile: name || undefined,
+        modelPrices: { ...userConfig.modelPrices, ...repoConfig.modelPrices },
+        prompts: { ...userConfig.prompts, ...repoConfig.prompts }
+      };
+    })();
+  }
+  return configPromise;
+}
+
+/**
+ * Get the configured git remote name
+ */
+export async function getRemote(): Promise<string> {
+  return (await loadConfig()).remote;
+}
+
+let baseBranchPromise: Promise<string> | null = null;
+
+/**
+ * Get the base branch for new branches and PRs
+ *
+ * Falls back to the GitHub default branch, then the remote's HEAD, then `main`.
+ */
+export function getBaseBranch(): Promise<string> {
+  if (!baseBranchPromise) {
+    baseBranchPromise = resolveBaseBranch();
+  }
+  return baseBranchPromise;
+}
+
+async function resolveBaseBranch(): Promise<string> {
+  const config = await loadConfig();
+  if (config.baseBranch) {
+    return config.baseBranch;
+  }
+
+  // gh fails outside GitHub repositories or when not installed
+  const defaultBranch = await exec('gh', ['repo', 'view', '--json', 'defaultBranchRef', '-q', '.defaultBranchRef.name'], { throwOnError: false });
+  if (defaultBranch?.trim()) {
+    return defaultBranch.trim();
+  }
+
+  // The remote HEAD is only set locally after a clone or `git remote set-head`
+  const ref = (await exec('git', ['symbolic-ref', '--short', `refs/remotes/${config.remote}/HEAD`], { throwOnError: false }))?.trim();
+  if (ref?.startsWith(`${config.remote}/`)) {
+    return ref.slice(config.remote.length + 1);
+  }
+
+  return 'main';
+}
+
+/**
+ * Substitute {{name}} placeholders in a prompt template
+ */
+export function renderTemplate(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
@@ -0,0 +1,92 @@
+import { DiffFile, DiffHunk } from './types';
+
+/**
+ * Strip the a/ or b/ prefix git adds to paths in diff headers
+ */
+function stripPrefix(filePath: string): string {
+  return filePath.replace(/^"?[ab]\//, '').replace(/"$/, '');
+}
+
+/**
+ * Parse a unified git diff into files and hunks
+ */
+export function parseDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git (\S+|"[^"]+") (\S+|"[^"]+")$/);
+      const oldPath = match ? stripPrefix(match[1]) : '';
+      const newPath = match ? stripPrefix(match[2]) : '';
+      file = { path: newPath, oldPath, header: [line], hunks: [], binary: false };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+
+    if (!file) {
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      hunk = { header: line, lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (hunk) {
+      // The trailing newline of the diff produces one empty line at the end
+      if (line !== '' || hunk.lines.length === 0) {
+        hunk.lines.push(line);
+      }
+      continue;
+    }
+
+    file.header.push(line);
+    if (line.startsWith('--- ') && line !== '--- /dev/null') {
+      file.oldPath = stripPrefix(line.slice(4));
+    } else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+      file.path = stripPrefix(line.slice(4));
+    } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+      file.binary = true;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Render a file's diff text, optionally restricted to some of its hunks
+ */
+export function formatFileDiff(file: DiffFile, hunks: DiffHunk[] = file.hunks): string {
+  const lines = [...file.header];
+  for (const hunk of hunks) {
+    lines.push(hunk.header, ...hunk.lines);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Build a patch containing only the selected hunks, suitable for `git apply --cached --recount`
+ */
+export function buildPartialPatch(file: DiffFile, hunks: DiffHunk[]): string {
+  const header = file.header.filter(line => !line.startsWith('index '));
+  return formatFileDiff({ ...file, header }, hunks);
+}
+
+/**
+ * Count added and removed lines in a file diff
+ */
+export function countChanges(file: DiffFile): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith('+')) added++;
+      else if (line.startsWith('-')) removed++;
+    }
+  }
+  return { added, removed };
+}
@@ -0,0 +1,304 @@
+import { promises as fs } from 'fs';
+import { DoctorCheck } from './types';
+import { getRepoRoot, REPO_CONFIG_FILE, USER_CONFIG_PATH } from './config';
+import { chalk, exec, getBaseBranch, getConfiguredProvider, getRemote, loadConfig } from './helpers';
+import { CLAUDE_CLI_PACKAGE } from './providers';
+
+interface ToolRequirement {
+  command: string;
+  name: string;
+  // Lowest version known to support every flag we use
+  minVersion: string;
+  install: string;
+  optional?: string;
+}
+
+const TOOLS: ToolRequirement[] = [
+  {
+    command: 'git',
+    name: 'Git',
+    minVersion: '2.22.0', // git branch --show-current
+    install: 'Install from: https://git-scm.com/downloads'
+  },
+  {
+    command: 'gh',
+    name: 'GitHub CLI',
+    minVersion: '2.40.0', // gh pr checks --json
+    install: 'Install with: brew install gh (macOS) or see https://cli.github.com/'
+  },
+  {
+    command: 'claude',
+    name: 'Claude CLI',
+    minVersion: '1.0.0',
+    install: `Install with: npm install -g ${CLAUDE_CLI_PACKAGE}`,
+    optional: 'only needed for the claude-cli provider'
+  }
+];
+
+const MIN_NODE_VERSION = '14.0.0';
+
+// Scopes of classic OAuth tokens; fine-grained tokens do not report any
+const REQUIRED_SCOPES = ['repo', 'workflow'];
+
+const TEST_PROMPT = 'Reply with the single word OK.';
+
+/**
+ * Compare two dotted version numbers
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check that a tool is installed and new enough
+ */
+async function checkTool(tool: ToolRequirement): Promise<DoctorCheck> {
+  const output = await exec(tool.command, ['--version'], { throwOnError: false });
+  if (output === null) {
+    return tool.optional
+      ? { name: tool.name, status: 'warn', detail: `not installed (${tool.optional})`, fix: tool.install }
+      : { name: tool.name, status: 'fail', detail: 'not installed', fix: tool.install };
+  }
+
+  const version = output.match(/\d+\.\d+(\.\d+)?/)?.[0];
+  if (!version) {
+    return { name: tool.name, status: 'warn', detail: `unrecognized version output: ${output.split('\n')[0]}` };
+  }
+  if (compareVersions(version, tool.minVersion) < 0) {
+    return {
+      name: tool.name,
+      status: tool.optional ? 'warn' : 'fail',
+      detail: `version ${version} is older than the required ${tool.minVersion}`,
+      fix: `Upgrade ${tool.command}. ${tool.install}`
+    };
+  }
+  return { name: tool.name, status: 'ok', detail: `version ${version}` };
+}
+
+/**
+ * Check Node.js and the external tools; used by doctor and after installing
+ */
+export async function checkTools(): Promise<DoctorCheck[]> {
+  const nodeVersion = process.versions.node;
+  const checks: DoctorCheck[] = [
+    compareVersions(nodeVersion, MIN_NODE_VERSION) < 0
+      ? { name: 'Node.js', status: 'fail', detail: `version ${nodeVersion} is older than the required ${MIN_NODE_VERSION}`, fix: 'Install a current LTS release from https://nodejs.org/' }
+      : { name: 'Node.js', status: 'ok', detail: `version ${nodeVersion}` }
+  ];
+  for (const tool of TOOLS) {
+    checks.push(await checkTool(tool));
+  }
+  return checks;
+}
+
+/**
+ * Check that gh is logged in with the scopes the PR commands need
+ */
+async function checkGitHubAuth(): Promise<DoctorCheck[]> {
+  const name = 'GitHub authentication';
+  if (await exec('gh', ['auth', 'status'], { throwOnError: false }) === null) {
+    return [{ name, status: 'fail', detail: 'gh is not logged in', fix: `Run: gh auth login --scopes ${REQUIRED_SCOPES.join(',')}` }];
+  }
+
+  const response = await exec('gh', ['api', '-i', 'user'], { throwOnError: false });
+  if (response === null) {
+    return [{ name, status: 'fail', detail: 'gh is logged in but the GitHub API rejected the token', fix: 'Run: gh auth refresh' }];
+  }
+  const login = response.match(/"login":\s*"([^"]+)"/)?.[1];
+  const checks: DoctorCheck[] = [{ name, status: 'ok', detail: login ? `logged in as ${login}` : 'logged in' }];
+
+  const header = response.match(/^x-oauth-scopes:(.*)$/im);
+  if (!header) {
+    checks.push({
+      name: 'Token scopes',
+      status: 'warn',
+      detail: 'the token does not report scopes (fine-grained token or GitHub App)',
+      fix: 'Make sure it can read and write contents, pull requests and workflows'
+    });
+    return checks;
+  }
+  const scopes = header[1].split(',').map(scope => scope.trim()).filter(Boolean);
+  const missing = REQUIRED_SCOPES.filter(scope => !scopes.includes(scope));
+  checks.push(missing.length === 0
+    ? { name: 'Token scopes', status: 'ok', detail: scopes.join(', ') }
+    : {
+        name: 'Token scopes',
+        status: 'fail',
+        detail: `missing ${missing.join(', ')} (has ${scopes.join(', ') || 'none'})`,
+        fix: `Run: gh auth refresh --scopes ${REQUIRED_SCOPES.join(',')}`
+      });
+  return checks;
+}
+
+/**
+ * Check that the AI backend answers a tiny request
+ */
+async function checkAI(): Promise<DoctorCheck> {
+  const name = 'AI provider';
+  let providerName = 'auto';
+  try {
+    // Never prompt for or save a key while checking
+    const provider = await getConfiguredProvider();
+    providerName = provider.name;
+    const started = Date.now();
+    // Call the backend directly: a cached answer would prove nothing
+    await provider.complete(TEST_PROMPT, 'ping');
+    const seconds = ((Date.now() - started) / 1000).toFixed(1);
+    return { name, status: 'ok', detail: `${provider.name}${provider.model ? ` (${provider.model})` : ''} answered in ${seconds}s` };
+  } catch (error) {
+    const fixes: Record<string, string> = {
+      'claude-cli': 'Run `claude` once to log in, or set ANTHROPIC_API_KEY to use the API directly',
+      anthropic: 'Check ANTHROPIC_API_KEY, or store a new key with: gh-claude auth rotate',
+      openai: 'Set OPENAI_API_KEY, or store a key with: gh-claude auth login --provider openai',
+      ollama: 'Start Ollama with `ollama serve` and pull the model with `ollama pull <model>`',
+      auto: 'Set ANTHROPIC_API_KEY, or store a key with: gh-claude auth login'
+    };
+    return { name, status: 'fail', detail: error instanceof Error ? error.message : String(error), fix: fixes[providerName] };
+  }
+}
+
+/**
+ * Check that the configured remote is a GitHub repository
+ */
+async function checkRemote(remote: string): Promise<DoctorCheck> {
+  const name = 'Git remote';
+  const url = await exec('git', ['remote', 'get-url', remote], { throwOnError: false });
+  if (!url) {
+    return {
+      name,
+      status: 'fail',
+      detail: `no remote named ${remote}`,
+      fix: `Run: git remote add ${remote} git@github.com:<owner>/<repo>.git, or set "remote" in ${REPO_CONFIG_FILE}`
+    };
+  }
+  // GitHub Enterprise hosts do not contain github.com, so ask gh as well
+  if (/github\.com[:/]/.test(url) || await exec('gh', ['repo', 'view', '--json', 'name'], { throwOnError: false }) !== null) {
+    return { name, status: 'ok', detail: `${remote} is ${url}` };
+  }
+  return {
+    name,
+    status: 'fail',
+    detail: `${remote} (${url}) is not a GitHub repository`,
+    fix: `Point it at GitHub with: git remote set-url ${remote} git@github.com:<owner>/<repo>.git, or set "remote" in ${REPO_CONFIG_FILE}`
+  };
+}
+
+/**
+ * Check that the base branch exists on the remote
+ */
+async function checkBaseBranch(remote: string): Promise<DoctorCheck> {
+  const name = 'Base branch';
+  const base = await getBaseBranch();
+  const heads = await exec('git', ['ls-remote', '--heads', remote, `refs/heads/${base}`], { throwOnError: false });
+  if (heads === null) {
+    return { name, status: 'fail', detail: `could not reach ${remote}`, fix: `Check your network and access with: git ls-remote ${remote}` };
+  }
+  if (!heads) {
+    return {
+      name,
+      status: 'fail',
+      detail: `${base} does not exist on ${remote}`,
+      fix: `Push it with: git push ${remote} ${base}, or set "baseBranch" in ${REPO_CONFIG_FILE}`
+    };
+  }
+  return { name, status: 'ok', detail: `${remote}/${base}` };
+}
+
+/**
+ * Check that the user config, which may hold API keys, is private
+ */
+async function checkConfigPermissions(): Promise<DoctorCheck> {
+  const name = 'Config permissions';
+  const stat = await fs.stat(USER_CONFIG_PATH).catch(() => null);
+  if (!stat) {
+    return { name, status: 'ok', detail: `${USER_CONFIG_PATH} not created yet` };
+  }
+  if (process.platform === 'win32') {
+    return { name, status: 'ok', detail: 'file modes are not checked on Windows' };
+  }
+  const mode = stat.mode & 0o777;
+  if (mode !== 0o600) {
+    return {
+      name,
+      status: 'fail',
+      detail: `${USER_CONFIG_PATH} has mode ${mode.toString(8).padStart(4, '0')}, readable by others`,
+      fix: `Run: chmod 600 ${USER_CONFIG_PATH}`
+    };
+  }
+  return { name, status: 'ok', detail: `${USER_CONFIG_PATH} is 0600` };
+}
+
+/**
+ * Run a check, turning an unexpected error into a failure
+ */
+async function safely(name: string, check: () => Promise<DoctorCheck | DoctorCheck[]>): Promise<DoctorCheck[]> {
+  try {
+    const result = await check();
+    return Array.isArray(result) ? result : [result];
+  } catch (error) {
+    return [{ name, status: 'fail', detail: error instanceof Error ? error.message : String(error) }];
+  }
+}
+
+/**
+ * Run every setup check, reporting each result as soon as it is known
+ *
+ * Checks never stop at the first problem, so one run shows everything to fix.
+ */
+export async function runDoctorChecks(onCheck: (check: DoctorCheck) => void): Promise<DoctorCheck[]> {
+  const all: DoctorCheck[] = [];
+  const report = (checks: DoctorCheck[]) => {
+    checks.forEach(onCheck);
+    all.push(...checks);
+  };
+
+  report(await safely('Tools', checkTools));
+  report(await safely('Config files', async () => {
+    await loadConfig();
+    return { name: 'Config files', status: 'ok', detail: 'valid' };
+  }));
+  report(await safely('Config permissions', checkConfigPermissions));
+  report(await safely('GitHub authentication', checkGitHubAuth));
+  report(await safely('AI provider', checkAI));
+
+  if (!(await getRepoRoot())) {
+    report([{
+      name: 'Repository',
+      status: 'warn',
+      detail: 'not in a git repository',
+      fix: 'Run gh-claude doctor inside a repository to check its remote and base branch'
+    }]);
+    return all;
+  }
+  const remote = await safely('Git remote', async () => checkRemote(await getRemote()));
+  report(remote);
+  if (remote[0].status === 'ok') {
+    report(await safely('Base branch', async () => checkBaseBranch(await getRemote())));
+  }
+  return all;
+}
+
+/**
+ * Print one check result with its fix
+ */
+export function printCheck(check: DoctorCheck): void {
+  const line = `${check.name}: ${check.detail}`;
+  if (check.status === 'ok') {
+    console.log(chalk.green(`✓ ${line}`));
+  } else if (check.status === 'warn') {
+    console.log(chalk.yellow(`⚠️  ${line}`));
+  } else {
+    console.log(chalk.red(`✗ ${line}`));
+  }
+  if (check.fix && check.status !== 'ok') {
+    console.log(chalk.gray(`  → ${check.fix}`));
+  }
+}
@@ -0,0 +1,66 @@
+import execa from 'execa';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ExecOptions } from './types';
+
+/**
+ * Run a command with an argument array and return its stdout
+ *
+ * Arguments are passed directly to the process, never through a shell, so
+ * generated text can be used as an argument without quoting or escaping.
+ */
+export async function exec(file: string, args: string[] = [], options: ExecOptions = {}): Promise<string | null> {
+  const { throwOnError, ...execaOptions } = options;
+  try {
+    const result = await execa(file, args, execaOptions);
+    return result.stdout;
+  } catch (error) {
+    if (throwOnError !== false) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+/**
+ * Run a command with an argument array and stream its output to the console
+ */
+export async function execStream(file: string, args: string[] = [], options: ExecOptions = {}): Promise<boolean> {
+  const { throwOnError, ...execaOptions } = options;
+  try {
+    await execa(file, args, { stdio: 'inherit', ...execaOptions });
+    return true;
+  } catch (error) {
+    if (throwOnError !== false) {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/**
+ * Write text to a temporary file for the duration of a callback
+ *
+ * Used for commit messages and PR bodies, which are passed to git and gh by path.
+ */
+export async function withTempFile<T>(prefix: string, contents: string, fn: (file: string) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), `${prefix}-`));
+  const file = path.join(dir, 'content.txt');
+  await fs.writeFile(file, contents);
+  try {
+    return await fn(file);
+  } finally {
+    await fs.unlink(file).catch(() => undefined);
+    await fs.rmdir(dir).catch(() => undefined);
+  }
+}
+
+/**
+ * Create a commit from a message file
+ */
+export async function commitWithMessage(message: string): Promise<void> {
+  await withTempFile('gh-claude-commit', `${message.trim()}\n`, file =>
+    exec('git', ['commit', '-q', '-F', file])
+  );
+}
@@ -1,49 +1,42 @@
-import * as execa from 'execa';
 import chalk from 'chalk';
-import { promises as fs } from 'fs';
-import * as path from 'path';
-import * as os from 'os';
 import * as readline from 'readline';
-import { AuthResult, ExecOptions } from './types';
+import { AIProvider, AuthResult, CommitInfo, CommitLintRules, ProviderSettings } from './types';
+import { exec, execStream, commitWithMessage, withTempFile } from './exec';
+import {
+  getBaseBranch,
+  getRemote,
+  getActiveProfile,
+  getRepoRoot,
+  loadConfig,
+  readCredentials,
+  readUserConfig,
+  renderTemplate,
+  saveProfile,
+  USER_CONFIG_PATH
+} from './config';
+import {
+  createAnthropicProvider,
+  createClaudeCliProvider,
+  createOllamaProvider,
+  createOpenAIProvider
+} from './providers';
+import { formatCommitMessage, inferScope, lintCommitMessage } from './commitlint';
+import { parseDiff } from './diff';
+import { summarizeDiff, truncateToTokens } from './summarize';
+import { guardSensitiveContent } from './secrets';
+import { ensureTemplateStructure, findPRTemplate, UNANSWERED_MARKER } from './pr-template';
+import { getCacheKey, getCachedResponse, noCache, setCachedResponse } from './cache';
+import { checkBudget, recordUsage } from './usage';
+import { formatExamples, getPRExamples, getRepoStyle, getStyleHint } from './style';
 
 // Global debug flag
 export const isDebug = process.argv.includes('--debug') || process.argv.includes('-d');
 
-/**
- * Execute a shell command and return the result
- */
-export async function exec(command: string, options: ExecOptions = {}): Promise<string | null> {
-  try {
-    const result = await execa.command(command, { shell: true, ...options });
-    return result.stdout;
-  } catch (error) {
-    if (options.throwOnError !== false) {
-      throw error;
-    }
-    return null;
-  }
-}
-
-/**
- * Execute a command and stream output to console
- */
-export async function execStream(command: string, options: ExecOptions = {}): Promise<boolean> {
-  try {
-    await execa.command(command, { shell: true, stdio: 'inherit', ...options });
-    return true;
-  } catch (error) {
-    if (options.throwOnError !== false) {
-      throw error;
-    }
-    return false;
-  }
-}
-
 /**
  * Get the current git branch
  */
 export async function getCurrentBranch(): Promise<string> {
-  const branch = await exec('git branch --show-current');
+  const branch = await exec('git', ['branch', '--show-current']);
   if (!branch) {
     throw new Error('Failed to get current branch');
   }
@@ -54,9 +47,9 @@ export async function getCurrentBranch(): Promise<string> {
  * Check if there are uncommitted changes
  */
 export async function hasUncommittedChanges(): Promise<boolean> {
-  const unstaged = await exec('git diff --name-only', { throwOnError: false });
-  const staged = await exec('git diff --cached --name-only', { throwOnError: false });
-  const untracked = await exec('git ls-files --others --exclude-standard', { throwOnError: false });
+  const unstaged = await exec('git', ['diff', '--name-only'], { throwOnError: false });
+  const staged = await exec('git', ['diff', '--cached', '--name-only'], { throwOnError: false });
+  const untracked = await exec('git', ['ls-files', '--others', '--exclude-standard'], { throwOnError: false });
   return !!(unstaged || staged || untracked);
 }
 
@@ -64,49 +57,72 @@ export async function hasUncommittedChanges(): Promise<boolean> {
  * Check if there are staged changes
  */
 export async function hasStagedChanges(): Promise<boolean> {
-  const staged = await exec('git diff --cached --name-only', { throwOnError: false });
+  const staged = await exec('git', ['diff', '--cached', '--name-only'], { throwOnError: false });
   return !!staged;
 }
 
 /**
- * Get or prompt for Anthropic API key
+ * Get the commits made since a commit, oldest first
  */
-async function getAnthropicApiKey(): Promise<AuthResult> {
-  // 1. Check environment variable
-  if (process.env.ANTHROPIC_API_KEY) {
-    return { method: 'env', key: process.env.ANTHROPIC_API_KEY };
-  }
+export async function getCommitsSince(sha: string | null): Promise<CommitInfo[]> {
+  const range = sha ? `${sha}..HEAD` : 'HEAD';
+  const log = await exec('git', ['log', '--reverse', '--format=%H%x1f%B%x1e', range], { throwOnError: false }) || '';
+  return log.split('\x1e')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [commitSha, message] = entry.split('\x1f');
+      return { sha: commitSha, message: message.trim() };
+    });
+}
 
-  // 2. Check if claude CLI works (already authenticated)
+/**
+ * Check whether the Claude CLI is installed and runnable
+ */
+export async function isClaudeCliAvailable(): Promise<boolean> {
   try {
-    await exec('claude --version', { throwOnError: true });
-    return { method: 'claude-cli', key: null };
+    await exec('claude', ['--version'], { throwOnError: true });
+    return true;
   } catch {
-    // Claude CLI not available or not authenticated
+    return false;
   }
+}
 
-  // 3. Check stored config
-  const configPath = path.join(os.homedir(), '.gh-claude-tools', 'config.json');
-  try {
-    const config = JSON.parse(await fs.readFile(configPath, 'utf8'));
-    if (config.anthropicApiKey) {
-      return { method: 'config', key: config.anthropicApiKey };
+/**
+ * The Anthropic API key from the environment; CLAUDE_API_KEY is accepted as an alias
+ */
+export function getEnvAnthropicKey(): { name: string; key: string } | null {
+  for (const name of ['ANTHROPIC_API_KEY', 'CLAUDE_API_KEY']) {
+    if (process.env[name]) {
+      return { name, key: process.env[name]! };
     }
-  } catch {
-    // No config file or no key stored
   }
+  return null;
+}
 
-  // 4. Prompt user for API key
-  console.log(chalk.yellow('\n🔑 Anthropic API key required for AI features'));
-  console.log(chalk.gray('Get your API key from: https://console.anthropic.com/settings/keys\n'));
-  
+/**
+ * Ask for an API key on the terminal
+ *
+ * Fails straight away without a terminal, so CI jobs do not hang waiting for input.
+ */
+export async function promptForApiKey(provider: 'anthropic' | 'openai', reason?: string): Promise<string> {
+  const label = provider === 'anthropic' ? 'Anthropic' : 'OpenAI';
+  if (!process.stdin.isTTY) {
+    const envName = provider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY';
+    throw new Error(`No ${label} API key found and no terminal to ask for one. Set ${envName}, or pipe a key to: gh-claude auth login --with-token`);
+  }
+
+  if (reason) {
+    console.log(chalk.yellow(`\n🔑 ${reason}`));
+  }
+  console.log(chalk.gray(`Get your API key from: ${provider === 'anthropic' ? 'https://console.anthropic.com/settings/keys' : 'https://platform.openai.com/api-keys'}\n`));
   const rl = readline.createInterface({
     input: process.stdin,
     output: process.stdout
   });
 
   const apiKey = await new Promise<string>((resolve) => {
-    rl.question('Enter your Anthropic API key: ', (answer) => {
+    rl.question(`Enter your ${label} API key: `, (answer) => {
       rl.close();
       resolve(answer.trim());
     });
@@ -115,13 +131,41 @@ async function getAnthropicApiKey(): Promise<AuthResult> {
   if (!apiKey) {
     throw new Error('API key is required for AI features');
   }
+  return apiKey;
+}
+
+/**
+ * Get or prompt for Anthropic API key
+ */
+async function getAnthropicApiKey(allowCli = true, allowPrompt = true): Promise<AuthResult> {
+  // 1. Check environment variable
+  const env = getEnvAnthropicKey();
+  if (env) {
+    return { method: 'env', key: env.key };
+  }
+
+  // 2. Check if claude CLI works (already authenticated)
+  if (allowCli && await isClaudeCliAvailable()) {
+    return { method: 'claude-cli', key: null };
+  }
+
+  // 3. Check stored config for the active profile
+  const { name: profile } = await getActiveProfile();
+  const credentials = await readCredentials(profile);
+  if (credentials.anthropicApiKey) {
+    return { method: 'config', key: credentials.anthropicApiKey };
+  }
+
+  // 4. Prompt user for API key
+  if (!allowPrompt) {
+    throw new Error(`No Anthropic API key found${profile ? ` for profile ${profile}` : ''}`);
+  }
+  const apiKey = await promptForApiKey('anthropic', `Anthropic API key required for AI features${profile ? ` (profile ${profile})` : ''}`);
 
   // Save the API key for future use
   try {
-    await fs.mkdir(path.dirname(configPath), { recursive: true });
-    await fs.writeFile(configPath, JSON.stringify({ anthropicApiKey: apiKey }, null, 2));
-    await fs.chmod(configPath, 0o600); // Secure file permissions
-    console.log(chalk.green('✓ API key saved securely\n'));
+    await saveProfile(profile, { anthropicApiKey: apiKey });
+    console.log(chalk.green(`✓ API key saved to ${USER_CONFIG_PATH}; manage it with: gh-claude auth\n`));
   } catch (error) {
     console.warn(chalk.yellow('⚠️  Could not save API key for future use'));
   }
@@ -130,118 +174,361 @@ async function getAnthropicApiKey(): Promise<AuthResult> {
 }
 
 /**
- * Execute Claude AI command with proper authentication
+ * Resolve provider settings from environment variables and the config files
  */
-async function executeClaudeCommand(prompt: string, input: string): Promise<string> {
-  const auth = await getAnthropicApiKey();
-  
+async function getProviderSettings(): Promise<ProviderSettings> {
+  const config = await loadConfig();
+  if (config.profile && !(await readUserConfig()).profiles?.[config.profile]) {
+    throw new Error(`Profile "${config.profile}" does not exist. Create it with: gh-claude auth login --profile ${config.profile}`);
+  }
+  return {
+    provider: (process.env.GH_CLAUDE_PROVIDER as ProviderSettings['provider']) || config.provider || 'auto',
+    model: process.env.GH_CLAUDE_MODEL || config.model,
+    baseUrl: process.env.GH_CLAUDE_BASE_URL || config.baseUrl
+  };
+}
+
+/**
+ * Check that an API key works by sending a tiny request with it
+ */
+export async function verifyApiKey(provider: 'anthropic' | 'openai', apiKey: string, model?: string): Promise<void> {
+  const config = await loadConfig();
+  // The configured model and base URL only apply when they belong to this provider
+  const sameProvider = (process.env.GH_CLAUDE_PROVIDER || config.provider || 'auto') === provider;
+  const options = sameProvider
+    ? { apiKey, model: model || process.env.GH_CLAUDE_MODEL || config.model, baseUrl: process.env.GH_CLAUDE_BASE_URL || config.baseUrl }
+    : { apiKey, model };
+  const client = provider === 'anthropic' ? createAnthropicProvider(options) : createOpenAIProvider(options);
+  await client.complete('Reply with the single word OK.', 'ping');
+}
+
+let providerPromise: Promise<AIProvider> | null = null;
+
+/**
+ * Select the AI backend to use for this run
+ *
+ * In `auto` mode the Claude CLI is preferred when installed; otherwise the
+ * resolved Anthropic API key is used against the Messages API directly.
+ */
+export function getProvider(): Promise<AIProvider> {
+  if (!providerPromise) {
+    providerPromise = resolveProvider();
+  }
+  return providerPromise;
+}
+
+/**
+ * Build the AI backend from existing credentials only, failing instead of asking for a key
+ */
+export function getConfiguredProvider(): Promise<AIProvider> {
+  return resolveProvider(false);
+}
+
+async function resolveProvider(allowPrompt = true): Promise<AIProvider> {
+  const config = await loadConfig();
+  const settings = await getProviderSettings();
+  const options = { model: settings.model, baseUrl: settings.baseUrl };
+
+  switch (settings.provider) {
+    case 'claude-cli':
+      return createClaudeCliProvider({ ...options, apiKey: (await readCredentials(config.profile || null)).anthropicApiKey });
+    case 'anthropic': {
+      const auth = await getAnthropicApiKey(false, allowPrompt);
+      return createAnthropicProvider({ ...options, apiKey: auth.key });
+    }
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY || (await readCredentials(config.profile || null)).openaiApiKey;
+      return createOpenAIProvider({ ...options, apiKey });
+    }
+    case 'ollama':
+      return createOllamaProvider(options);
+    case 'auto':
+    case undefined:
+      break;
+    default:
+      throw new Error(`Unknown AI provider "${settings.provider}". Use one of: auto, claude-cli, anthropic, openai, ollama`);
+  }
+
+  // A base URL only makes sense for an HTTP backend, so skip the CLI
+  const auth = await getAnthropicApiKey(!settings.baseUrl, allowPrompt);
   if (isDebug) {
     console.log(chalk.gray(`🔧 Auth method: ${auth.method}`));
-    console.log(chalk.gray(`⚡ Calling Claude CLI...`));
   }
-  
   if (auth.method === 'claude-cli') {
-    // Use claude CLI directly
-    try {
-      const result = await execa.command(`claude --print "${prompt}"`, {
-        shell: true,
-        input: input,
-        timeout: 90000
-      });
-      if (isDebug) {
-        console.log(chalk.gray(`✅ Claude CLI responded`));
-        console.log(chalk.gray(`📤 Response length: ${result.stdout.length} chars`));
-      }
-      const trimmed = result.stdout.trim();
+    return createClaudeCliProvider(options);
+  }
+  if (!settings.baseUrl && await isClaudeCliAvailable()) {
+    return createClaudeCliProvider({ ...options, apiKey: auth.key });
+  }
+  return createAnthropicProvider({ ...options, apiKey: auth.key });
+}
+
+/**
+ * Execute Claude AI command with proper authentication
+ *
+ * Responses are cached by prompt, backend and input; pass `useCache: false`
+ * when a fresh answer is wanted, as when regenerating. Responses that fail
+ * `isValid` are returned but not cached, so a bad answer is not replayed.
+ */
+export async function executeClaudeCommand(
+  prompt: string,
+  input: string,
+  options: { useCache?: boolean; isValid?: (response: string) => boolean | Promise<boolean> } = {}
+): Promise<string> {
+  const { useCache = true, isValid } = options;
+  const provider = await getProvider();
+  const config = await loadConfig();
+  const cacheEnabled = !noCache && config.cacheTtlHours > 0;
+  const cacheKey = getCacheKey(prompt, provider.name, provider.model, input);
+
+  if (cacheEnabled && useCache) {
+    const cached = await getCachedResponse(cacheKey, config.cacheTtlHours);
+    if (cached) {
       if (isDebug) {
-        console.log(chalk.gray(`🔄 Returning to caller...`));
+        console.log(chalk.gray('💾 Using cached response'));
       }
-      return trimmed;
-    } catch (error: any) {
+      return cached;
+    }
+  }
+  
+  await checkBudget(config, provider);
+  if (isDebug) {
+    console.log(chalk.gray(`⚡ Calling ${provider.name}${provider.model ? ` (${provider.model})` : ''}...`));
+  }
+  
+  try {
+    const started = Date.now();
+    const result = await provider.complete(prompt, input);
+    await recordUsage(config, provider, prompt, input, result, Date.now() - started).catch(error => {
       if (isDebug) {
-        console.log(chalk.gray(`❌ Claude CLI failed: ${error.message}`));
+        console.log(chalk.gray(`⚠️  Could not write the usage log: ${error.message}`));
       }
-      if (error.timedOut) {
-        throw new Error('Claude CLI timed out after 90 seconds. The diff may be too large or Claude API is slow.');
-      }
-      throw error;
+    });
+    if (isDebug) {
+      console.log(chalk.gray(`✅ ${provider.name} responded`));
+      console.log(chalk.gray(`📤 Response length: ${result.length} chars`));
     }
-  } else {
-    // Use API directly with the key
-    const env = auth.key ? { ANTHROPIC_API_KEY: auth.key } : {};
-    
-    // First check if claude CLI is available
-    try {
-      const result = await execa.command(`claude --print "${prompt}"`, {
-        shell: true,
-        input: input,
-        timeout: 90000,
-        env: { ...process.env, ...env }
+    if (!result) {
+      throw new Error(`${provider.name} returned an empty response`);
+    }
+    if (cacheEnabled && (!isValid || await isValid(result))) {
+      await setCachedResponse(cacheKey, result, config.cacheTtlHours, config.cacheMaxSizeMb).catch(error => {
+        if (isDebug) {
+          console.log(chalk.gray(`⚠️  Could not write the response cache: ${error.message}`));
+        }
       });
-      if (isDebug) {
-        console.log(chalk.gray(`✅ Claude CLI responded`));
-        console.log(chalk.gray(`📤 Response length: ${result.stdout.length} chars`));
-      }
-      const trimmed = result.stdout.trim();
-      if (isDebug) {
-        console.log(chalk.gray(`🔄 Returning to caller...`));
-      }
-      return trimmed;
-    } catch (error: any) {
-      if (isDebug) {
-        console.log(chalk.gray(`❌ Claude CLI failed: ${error.message}`));
-      }
-      if (error.timedOut) {
-        throw new Error('Claude CLI timed out after 90 seconds. The diff may be too large or Claude API is slow.');
-      }
-      if (error.exitCode) {
-        // If claude CLI not available, we'd need to use the API directly
-        // For now, we'll require claude CLI to be installed
-        console.error(chalk.red('\n✗ Claude CLI is required but not found'));
-        console.error(chalk.yellow('Install with: npm install -g @anthropic-ai/claude-cli\n'));
-        throw new Error('Claude CLI not found');
-      }
-      throw error;
     }
+    return result;
+  } catch (error: any) {
+    if (isDebug) {
+      console.log(chalk.gray(`❌ ${provider.name} failed: ${error.message}`));
+    }
+    throw error;
   }
 }
 
 /**
- * Limit diff size for commit message generation
+ * Extract and parse the JSON payload from a model response
  */
-function limitDiffForCommit(diff: string): string {
-  const maxChars = 15000;
-  
-  if (diff.length <= maxChars) {
-    return diff;
+export function parseJsonResponse<T>(response: string): T {
+  const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/);
+  const text = fenced ? fenced[1] : response;
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf(']'), text.lastIndexOf('}'));
+  if (start === -1 || end < start) {
+    throw new Error('Claude did not return JSON');
   }
-  
-  // For large diffs, prioritize file changes over content
-  const lines = diff.split('\n');
-  const fileHeaders = lines.filter(line => line.startsWith('diff --git') || line.startsWith('+++') || line.startsWith('---'));
-  const changeLines = lines.filter(line => line.startsWith('+') || line.startsWith('-'));
-  
-  // Include file headers and first N change lines
-  const limitedLines = [...fileHeaders, ...changeLines.slice(0, 200)];
-  const limitedDiff = limitedLines.join('\n');
-  
-  if (limitedDiff.length <= maxChars) {
-    return limitedDiff;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new Error(`Claude returned invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Whether a response holds a JSON array, used to keep malformed answers out of the cache
+ */
+export function isJsonArrayResponse(response: string): boolean {
+  try {
+    return Array.isArray(parseJsonResponse(response));
+  } catch {
+    return false;
+  }
+}
+
+const DEFAULT_COMMIT_PROMPT = 'Write a conventional commit message for these changes. Start with a header line "<type>(<scope>): <description>" under {{maxSubjectLength}} chars, using types: {{types}}. {{scopeHint}} Unless the change is trivial, add a blank line and a body wrapped at 72 chars explaining why the change was made. If relevant, add a blank line and footers, one per line: "BREAKING CHANGE: <what breaks>" for incompatible changes (also put ! before the colon in the header) and "Refs #<issue>" for referenced issues. Output ONLY the commit message, no explanation.';
+
+const STYLE_COMMIT_PROMPT = 'Write a commit message for these changes in the style this repository already uses. {{styleHint}} Keep the subject line under {{maxSubjectLength}} chars. Unless the change is trivial, add a blank line and a body wrapped at 72 chars explaining why the change was made. Output ONLY the commit message, no explanation.';
+
+const MAX_BODY_LINE_LENGTH = 100;
+const MAX_LINT_RETRIES = 2;
+
+const CANDIDATE_SEPARATOR = '---';
+
+const DEFAULT_PR_PROMPT = 'Based on these git changes, write a PR title (first line, under {{maxSubjectLength}} chars) and description. Include: brief summary, key changes as bullets. Format for GitHub markdown. Output ONLY the title on first line, then a blank line, then the description.';
+
+const TEMPLATE_PR_PROMPT = `Based on these git changes, write a PR title (first line, under {{maxSubjectLength}} chars) and a description that fills in the repository's pull request template below. Keep every heading of the template, in order, and keep every checklist item; only tick a checkbox when the changes clearly show it is done. Fill each section from the diff and commits. HTML comments in the template are instructions: follow them and leave them out. If a section cannot be answered from the changes (for example screenshots or manual test results), write exactly "${UNANSWERED_MARKER}" under it instead of inventing an answer. Output ONLY the title on first line, then a blank line, then the description.
+
+Pull request template:
+{{template}}`;
+
+const DEFAULT_RELEASE_PROMPT = 'Write release notes for version {{version}} from this list of changes, grouped by type. Write for users of the project, not its developers: use "### " headings such as Breaking Changes, Features and Bug Fixes, and one plain-language bullet per notable change, merging related commits. Keep the PR references like (#123) and author mentions. Describe migration steps for breaking changes. Leave out purely internal changes such as chores, tests and CI unless nothing else changed. Do not invent changes that are not in the list. Output ONLY the markdown, without a title.';
+
+/**
+ * Check a diff for secrets, then fit it into the token budget, summarizing it if needed
+ */
+async function prepareDiff(diff: string, maxTokens: number): Promise<string> {
+  const config = await loadConfig();
+  const safeDiff = await guardSensitiveContent(diff);
+  return summarizeDiff(safeDiff, {
+    maxTokens,
+    concurrency: config.summaryConcurrency,
+    complete: executeClaudeCommand,
+    onProgress: (message) => console.log(chalk.yellow(message))
+  });
+}
+
+/**
+ * Lint rules for generated commit messages, from config
+ */
+export async function getCommitLintRules(): Promise<CommitLintRules> {
+  const config = await loadConfig();
+  return {
+    types: config.commitTypes,
+    maxSubjectLength: config.maxSubjectLength,
+    maxBodyLineLength: MAX_BODY_LINE_LENGTH
+  };
+}
+
+/**
+ * Build the commit prompt from config, adding the inferred scope and any user guidance
+ */
+async function getCommitPrompt(diff: string, guidance?: string): Promise<string> {
+  const config = await loadConfig();
+  const root = await getRepoRoot();
+  const { style, detected, examples } = await getRepoStyle();
+  if (isDebug) {
+    console.log(chalk.gray(`🎨 Commit style: ${style}${detected ? ' (detected from history)' : ''}, ${examples.length} examples`));
+  }
+  const scope = root ? await inferScope(parseDiff(diff).map(file => file.path), root) : null;
+  const defaultPrompt = style === 'conventional' ? DEFAULT_COMMIT_PROMPT : STYLE_COMMIT_PROMPT;
+  const prompt = renderTemplate(config.prompts.commit || defaultPrompt, {
+    types: config.commitTypes.join('/'),
+    maxSubjectLength: config.maxSubjectLength,
+    scope: scope || '',
+    scopeHint: scope
+      ? `Use the scope "${scope}".`
+      : 'Use a short scope naming the affected area, or omit the scope if the change is broad.',
+    styleHint: style === 'conventional' ? '' : await getStyleHint(style)
+  });
+  const withGuidance = guidance ? `${prompt} Additional guidance from the author: ${guidance}` : prompt;
+  return withGuidance + formatExamples('Recent commit messages from this repository, for reference on style only:', examples);
+}
+
+/**
+ * Whether generated commit messages should be linted as conventional commits
+ */
+export async function shouldLintCommits(): Promise<boolean> {
+  const config = await loadConfig();
+  return config.validateCommits && (await getRepoStyle()).style === 'conventional';
+}
+
+/**
+ * Whether a generated commit message passes validation, or validation is off
+ */
+async function isValidCommitMessage(message: string): Promise<boolean> {
+  return !(await shouldLintCommits()) || lintCommitMessage(message, await getCommitLintRules()).length === 0;
+}
+
+/**
+ * Validate a generated commit message, re-prompting Claude to fix any problems
+ */
+async function ensureValidCommitMessage(message: string, prompt: string, input: string): Promise<string> {
+  if (!(await shouldLintCommits())) {
+    return message;
+  }
+
+  const rules = await getCommitLintRules();
+  let current = message;
+  for (let attempt = 1; ; attempt++) {
+    const errors = lintCommitMessage(current, rules);
+    if (errors.length === 0) {
+      return current;
+    }
+    if (attempt > MAX_LINT_RETRIES) {
+      throw new Error(`Generated commit message failed validation:\n  - ${errors.join('\n  - ')}`);
+    }
+    if (isDebug) {
+      console.log(chalk.gray(`🔁 Commit message failed validation, re-prompting: ${errors.join('; ')}`));
+    }
+    const correction = `${prompt}\n\nYour previous message was:\n${current}\n\nIt failed validation:\n- ${errors.join('\n- ')}\nFix these problems and output ONLY the corrected commit message.`;
+    current = formatCommitMessage(await executeClaudeCommand(correction, input, {
+      isValid: response => isValidCommitMessage(formatCommitMessage(response))
+    }));
   }
-  
-  // If still too long, just use the first maxChars characters
-  return diff.substring(0, maxChars) + '\n\n[diff truncated due to size]';
 }
 
 /**
  * Generate commit message using Claude
  */
-export async function generateCommitMessage(diff: string): Promise<string> {
-  const prompt = `Write a conventional commit message for these changes. Format: <type>: <description>. Keep under 72 chars. Use types: feat/fix/docs/style/refactor/test/chore. Output ONLY the commit message, no explanation.`;
+export async function generateCommitMessage(diff: string, guidance?: string): Promise<string> {
+  const prompt = await getCommitPrompt(diff, guidance);
   
   try {
-    const limitedDiff = limitDiffForCommit(diff);
-    return await executeClaudeCommand(prompt, limitedDiff);
+    const limitedDiff = await prepareDiff(diff, (await loadConfig()).maxCommitTokens);
+    const message = formatCommitMessage(await executeClaudeCommand(prompt, limitedDiff, {
+      isValid: response => isValidCommitMessage(formatCommitMessage(response))
+    }));
+    return await ensureValidCommitMessage(message, prompt, limitedDiff);
+  } catch (error) {
+    console.error(chalk.red('✗ Failed to generate commit message with Claude'));
+    throw error;
+  }
+}
+
+/**
+ * Generate several alternative commit messages in a single Claude call
+ */
+export async function generateCommitCandidates(diff: string, count: number, guidance?: string, useCache = true): Promise<string[]> {
+  const basePrompt = await getCommitPrompt(diff, guidance);
+  const prompt = `${basePrompt} Write ${count} distinct alternatives, separated by a line containing only ${CANDIDATE_SEPARATOR}.`;
+
+  try {
+    const limitedDiff = await prepareDiff(diff, (await loadConfig()).maxCommitTokens);
+    const splitCandidates = (response: string) => response
+      .split(new RegExp(`^\\s*${CANDIDATE_SEPARATOR}\\s*$`, 'm'))
+      .map(candidate => formatCommitMessage(candidate))
+      .filter(Boolean)
+      .slice(0, count);
+    const result = await executeClaudeCommand(prompt, limitedDiff, {
+      useCache,
+      isValid: async response => {
+        const candidates = splitCandidates(response);
+        for (const candidate of candidates) {
+          if (!(await isValidCommitMessage(candidate))) {
+            return false;
+          }
+        }
+        return candidates.length > 0;
+      }
+    });
+    const candidates = splitCandidates(result);
+
+    // Keep the candidates that pass validation, fixing them up where needed
+    const valid: string[] = [];
+    for (const candidate of candidates) {
+      try {
+        valid.push(await ensureValidCommitMessage(candidate, basePrompt, limitedDiff));
+      } catch (error) {
+        if (isDebug) {
+          console.log(chalk.gray(`🔧 Dropping candidate: ${error instanceof Error ? error.message : error}`));
+        }
+      }
+    }
+    if (candidates.length > 0 && valid.length === 0) {
+      throw new Error('None of the generated commit messages passed validation');
+    }
+    return valid;
   } catch (error) {
     console.error(chalk.red('✗ Failed to generate commit message with Claude'));
     throw error;
@@ -252,17 +539,31 @@ export async function generateCommitMessage(diff: string): Promise<string> {
  * Generate PR content using Claude
  */
 export async function generatePRContent(context: string): Promise<string> {
-  const prompt = `Based on these git changes, write a PR title (first line, under 72 chars) and description. Include: brief summary, key changes as bullets. Format for GitHub markdown. Output ONLY the title on first line, then a blank line, then the description.`;
+  const config = await loadConfig();
+  const template = await findPRTemplate();
+  const prompt = renderTemplate(config.prompts.pr || (template ? TEMPLATE_PR_PROMPT : DEFAULT_PR_PROMPT), {
+    maxSubjectLength: config.maxSubjectLength,
+    baseBranch: await getBaseBranch(),
+    template: template || ''
+  }) + formatExamples('Recently merged pull requests from this repository, for reference on the style of the title and description only:', await getPRExamples());
   
   try {
     if (isDebug) {
       console.log(chalk.gray(`📊 Context size: ${context.length} characters`));
+      if (template) {
+        console.log(chalk.gray('📋 Filling in the repository PR template'));
+      }
     }
     const result = await executeClaudeCommand(prompt, context);
     if (isDebug) {
       console.log(chalk.gray(`✨ PR content generated successfully`));
     }
-    return result;
+    if (!template) {
+      return result;
+    }
+    // Restore any template sections or checklist items the model dropped
+    const [title, ...rest] = result.split('\n');
+    return `${title}\n\n${ensureTemplateStructure(rest.join('\n'), template)}`;
   } catch (error) {
     console.error(chalk.red('✗ Failed to generate PR content with Claude'));
     if (error instanceof Error) {
@@ -272,30 +573,52 @@ export async function generatePRContent(context: string): Promise<string> {
   }
 }
 
+/**
+ * Write release notes for version from the grouped list of changes
+ */
+export async function generateReleaseNotes(changes: string, version: string): Promise<string> {
+  const config = await loadConfig();
+  const prompt = renderTemplate(config.prompts.release || DEFAULT_RELEASE_PROMPT, { version });
+  const notes = await executeClaudeCommand(prompt, truncateToTokens(changes, config.maxPRTokens));
+  return notes.replace(/^```\w*\n?/, '').replace(/\n?```\s*$/, '').trim();
+}
+
+const DIVERGED_MESSAGE = 'Remote branch has diverged. See options above.';
+
+/**
+ * Whether a push error from ensureBranchPushed means the remote branch has new commits
+ */
+export function isDivergedPushError(error: unknown): boolean {
+  return error instanceof Error && error.message === DIVERGED_MESSAGE;
+}
+
 /**
  * Ensure branch is pushed and tracked
  */
 export async function ensureBranchPushed(): Promise<void> {
   const branch = await getCurrentBranch();
+  const remote = await getRemote();
   
   // Check if branch has upstream
-  const hasUpstream = await exec(`git rev-parse --abbrev-ref ${branch}@{upstream}`, { throwOnError: false });
+  const hasUpstream = await exec('git', ['rev-parse', '--abbrev-ref', `${branch}@{upstream}`], { throwOnError: false });
   
   if (!hasUpstream) {
     console.log(chalk.yellow('⏳ Setting up branch tracking...'));
-    await exec(`git push -u origin ${branch}`);
+    await exec('git', ['push', '-u', remote, branch]);
   } else {
-    console.log(chalk.yellow(`⏳ Pushing ${branch} to origin...`));
+    console.log(chalk.yellow(`⏳ Pushing ${branch} to ${remote}...`));
     try {
-      await exec('git push');
+      await exec('git', ['push']);
     } catch (error: any) {
-      if (error.message?.includes('non-fast-forward')) {
+      // git reports "fetch first" when it does not have the remote commits locally
+      if (/non-fast-forward|fetch first/.test(error.message || '')) {
         console.log(chalk.red('\n❌ Push failed: Remote branch has new changes'));
         console.log(chalk.yellow('\nOptions:'));
         console.log(chalk.gray('  1. Pull and rebase:  git pull --rebase'));
         console.log(chalk.gray('  2. Force push:       git push --force-with-lease'));
-        console.log(chalk.gray('  3. Check PR:         gh pr view --web\n'));
-        throw new Error('Remote branch has diverged. See options above.');
+        console.log(chalk.gray('  3. Sync with Claude: gh-claude sync --upstream'));
+        console.log(chalk.gray('  4. Check PR:         gh pr view --web\n'));
+        throw new Error(DIVERGED_MESSAGE);
       }
       throw error;
     }
@@ -303,84 +626,17 @@ export async function ensureBranchPushed(): Promise<void> {
 }
 
 /**
- * Limit diff size for PR description generation
+ * Get PR context for Claude, comparing against the given ref (the remote base branch by default)
  */
-function limitDiffForPR(diff: string): string {
-  const maxChars = 30000;
+export async function getPRContext(baseRef?: string): Promise<string> {
+  const base = baseRef || `${await getRemote()}/${await getBaseBranch()}`;
+  const diffStat = await exec('git', ['diff', `${base}...HEAD`, '--stat']) || '';
+  const commits = await exec('git', ['log', `${base}..HEAD`, '--oneline']) || '';
+  const fullDiff = await exec('git', ['diff', `${base}...HEAD`]) || '';
   
-  if (diff.length <= maxChars) {
-    return diff;
-  }
-  
-  if (isDebug) {
-    console.log(chalk.gray(`📝 Diff too large (${diff.length} chars), truncating to ${maxChars} chars`));
-  }
-  
-  // For very large diffs, use simple truncation to avoid complexity
-  if (diff.length > 100000) {
-    if (isDebug) {
-      console.log(chalk.gray('🔪 Using simple truncation for very large diff'));
-    }
-    return diff.substring(0, maxChars) + '\n\n[Diff truncated - PR contains additional changes]';
-  }
-  
-  // For moderately large diffs, use structured approach
-  const lines = diff.split('\n');
-  const fileHeaders = lines.filter(line => 
-    line.startsWith('diff --git') || 
-    line.startsWith('+++') || 
-    line.startsWith('---') ||
-    line.startsWith('index ')
-  );
-  
-  // Get a sample of changes from each file
-  const changesByFile: { [key: string]: string[] } = {};
-  let currentFile = '';
-  
-  for (const line of lines) {
-    if (line.startsWith('diff --git')) {
-      currentFile = line;
-      changesByFile[currentFile] = [];
-    } else if (currentFile && (line.startsWith('+') || line.startsWith('-'))) {
-      if (!changesByFile[currentFile]) {
-        changesByFile[currentFile] = [];
-      }
-      if (changesByFile[currentFile].length < 20) { // Limit lines per file
-        changesByFile[currentFile].push(line);
-      }
-    }
-  }
+  const limitedDiff = await prepareDiff(fullDiff, (await loadConfig()).maxPRTokens);
   
-  // Build the limited diff
-  let limitedDiff = fileHeaders.join('\n') + '\n\n';
-  let currentLength = limitedDiff.length;
-  
-  for (const [file, changes] of Object.entries(changesByFile)) {
-    const section = `\n${file}\n${changes.join('\n')}\n`;
-    if (currentLength + section.length > maxChars) {
-      break;
-    }
-    limitedDiff += section;
-    currentLength += section.length;
-  }
-  
-  if (isDebug) {
-    console.log(chalk.gray(`✂️ Truncated diff to ${limitedDiff.length} chars`));
-  }
-  return limitedDiff + '\n\n[Diff truncated - PR contains additional changes]';
-}
-
-/**
- * Get PR context for Claude
- */
-export async function getPRContext(): Promise<string> {
-  const diffStat = await exec('git diff origin/main...HEAD --stat') || '';
-  const commits = await exec('git log origin/main..HEAD --oneline') || '';
-  const fullDiff = await exec('git diff origin/main...HEAD') || '';
-  
-  const limitedDiff = limitDiffForPR(fullDiff);
-  
-  return `Diff summary:\n${diffStat}\n\nCommits:\n${commits}\n\nSample changes:\n${limitedDiff}`;
+  return `Diff summary:\n${diffStat}\n\nCommits:\n${commits}\n\nChanges:\n${limitedDiff}`;
 }
 
 /**
@@ -388,7 +644,7 @@ export async function getPRContext(): Promise<string> {
  */
 export async function getCurrentPR(): Promise<string | null> {
   try {
-    const prUrl = await exec('gh pr view --json url -q .url');
+    const prUrl = await exec('gh', ['pr', 'view', '--json', 'url', '-q', '.url']);
     return prUrl || null;
   } catch {
     return null;
@@ -400,7 +656,11 @@ export async function getCurrentPR(): Promise<string | null> {
  */
 export async function stageAllChanges(): Promise<void> {
   console.log(chalk.yellow('📝 Staging all changes...'));
-  await exec('git add -A');
+  await exec('git', ['add', '-A']);
 }
 
+export { exec, execStream, commitWithMessage, withTempFile };
+
+export { loadConfig, getRemote, getBaseBranch };
+
 export { chalk };
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { exec } from './exec';
+import { getRepoRoot } from './config';
+import { chalk, generateCommitMessage, isDebug } from './helpers';
+
+export const HOOK_NAME = 'prepare-commit-msg';
+
+// Our lines are fenced so an existing hook can keep its own content
+const BLOCK_START = '# >>> gh-claude >>>';
+const BLOCK_END = '# <<< gh-claude <<<';
+
+// Commits that already have a message: -m/-F, merges, squashes and --amend/-c/-C
+const SKIPPED_SOURCES = ['message', 'merge', 'squash', 'commit'];
+
+const HOOK_BLOCK = `${BLOCK_START}
+# Pre-fills the commit message with an AI-generated one. Remove with: gh-claude hook uninstall
+if command -v gh-claude >/dev/null 2>&1; then
+  gh-claude hook run "$1" "$2" "$3" </dev/null || true
+fi
+${BLOCK_END}`;
+
+/**
+ * Find the file git runs as the prepare-commit-msg hook
+ *
+ * Honours core.hooksPath. For husky, whose core.hooksPath points at generated
+ * wrappers in `.husky/_`, the hook goes in `.husky/` where husky expects user hooks.
+ */
+export async function getHookPath(): Promise<string> {
+  const root = await getRepoRoot();
+  if (!root) {
+    throw new Error('Not in a git repository');
+  }
+
+  const hooksPath = (await exec('git', ['config', '--get', 'core.hooksPath'], { throwOnError: false }))?.trim();
+  if (hooksPath) {
+    const dir = path.resolve(root, hooksPath);
+    // Setting it to /dev/null is a common way to turn hooks off
+    const stat = await fs.stat(dir).catch(() => null);
+    if (stat && !stat.isDirectory()) {
+      throw new Error(`core.hooksPath is set to ${hooksPath}, which is not a directory`);
+    }
+    const isHuskyWrapperDir = path.basename(dir) === '_' && path.basename(path.dirname(dir)) === '.husky';
+    return path.join(isHuskyWrapperDir ? path.dirname(dir) : dir, HOOK_NAME);
+  }
+
+  // --git-path handles worktrees, where hooks live in the main repository; it prints a path relative to the cwd
+  const hooksDir = await exec('git', ['rev-parse', '--git-path', 'hooks']);
+  return path.join(path.resolve(hooksDir!.trim()), HOOK_NAME);
+}
+
+/**
+ * Read a hook file, returning null when it does not exist
+ */
+async function readHook(hookPath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(hookPath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove our block from hook content
+ */
+function stripBlock(content: string): string {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END);
+  if (start === -1 || end < start) {
+    return content;
+  }
+  return (content.slice(0, start) + content.slice(end + BLOCK_END.length)).replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Install the hook, adding to an existing hook instead of replacing it
+ */
+export async function installHook(): Promise<{ path: string; updated: boolean }> {
+  const hookPath = await getHookPath();
+  const existing = await readHook(hookPath);
+  const updated = existing !== null && existing.includes(BLOCK_START);
+  const base = existing !== null ? stripBlock(existing).trimEnd() : '#!/bin/sh';
+
+  await fs.mkdir(path.dirname(hookPath), { recursive: true });
+  await fs.writeFile(hookPath, `${base || '#!/bin/sh'}\n\n${HOOK_BLOCK}\n`);
+  await fs.chmod(hookPath, 0o755);
+  return { path: hookPath, updated };
+}
+
+/**
+ * Remove the hook, deleting the file when nothing else is left in it
+ *
+ * Returns the hook path, or null when the hook was not installed.
+ */
+export async function uninstallHook(): Promise<string | null> {
+  const hookPath = await getHookPath();
+  const existing = await readHook(hookPath);
+  if (existing === null || !existing.includes(BLOCK_START)) {
+    return null;
+  }
+
+  const remaining = stripBlock(existing).trim();
+  if (!remaining || remaining === '#!/bin/sh') {
+    await fs.unlink(hookPath);
+  } else {
+    await fs.writeFile(hookPath, `${remaining}\n`);
+  }
+  return hookPath;
+}
+
+/**
+ * Body of the prepare-commit-msg hook: write a generated message above git's comments
+ *
+ * Never throws, so a failure leaves the usual empty message instead of blocking the commit.
+ */
+export async function runPrepareCommitMsg(messageFile: string, source?: string): Promise<void> {
+  if (!messageFile || (source && SKIPPED_SOURCES.includes(source)) || process.env.GH_CLAUDE_HOOK === '0') {
+    return;
+  }
+
+  try {
+    // git points GIT_INDEX_FILE at the right index for `git commit -a` and pathspec commits
+    const diff = await exec('git', ['diff', '--cached']);
+    if (!diff) {
+      return;
+    }
+
+    console.log(chalk.yellow('🤖 gh-claude: generating commit message...'));
+    const message = await generateCommitMessage(diff);
+    const current = await fs.readFile(messageFile, 'utf8');
+    await fs.writeFile(messageFile, `${message}\n\n${current.replace(/^\n+/, '')}`);
+  } catch (error) {
+    console.log(chalk.yellow('⚠️  gh-claude: could not generate a commit message'));
+    if (error instanceof Error && isDebug) {
+      console.log(chalk.gray(`Error details: ${error.message}`));
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as readline from 'readline';
+import { chalk, generateCommitCandidates } from './helpers';
+import { execStream } from './exec';
+import { jsonOutput } from './output';
+
+// Skip all prompts and accept the first generated result
+export const assumeYes = process.argv.includes('--yes') || process.argv.includes('-y');
+
+/**
+ * Whether prompts can be shown to the user
+ */
+export function isInteractive(): boolean {
+  return !assumeYes && !jsonOutput && !!process.stdin.isTTY && !!process.stdout.isTTY;
+}
+
+/**
+ * Ask a single question on the terminal
+ */
+export function ask(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Ask a yes/no question, defaulting to yes
+ */
+export async function confirm(question: string): Promise<boolean> {
+  const answer = await ask(`${question} ${chalk.gray('[Y/n]')} `);
+  return answer === '' || /^y(es)?$/i.test(answer);
+}
+
+/**
+ * Open text in $VISUAL/$EDITOR and return the saved result without comment lines
+ */
+export async function editInEditor(text: string, help: string[] = []): Promise<string> {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const [command, ...args] = editor.split(/\s+/);
+  const tmpFile = path.join(os.tmpdir(), `gh-claude-edit-${Date.now()}.txt`);
+  const comments = help.map(line => `# ${line}`).join('\n');
+
+  await fs.writeFile(tmpFile, comments ? `${text}\n\n${comments}\n` : `${text}\n`);
+  try {
+    await execStream(command, [...args, tmpFile]);
+    const edited = await fs.readFile(tmpFile, 'utf8');
+    return edited
+      .split('\n')
+      .filter(line => !line.startsWith('#'))
+      .join('\n')
+      .trim();
+  } finally {
+    await fs.unlink(tmpFile).catch(() => undefined);
+  }
+}
+
+/**
+ * Let the user pick, edit or regenerate a commit message
+ *
+ * Returns null when the user aborts.
+ */
+export async function reviewCommitMessage(diff: string, count = 3): Promise<string | null> {
+  let guidance: string | undefined;
+  let candidates: string[] = [];
+  let regenerate = true;
+  // Only the first round may come from the cache; regenerating asks for new messages
+  let useCache = true;
+
+  while (true) {
+    if (regenerate) {
+      console.log(chalk.yellow('🤖 Generating commit message candidates...'));
+      candidates = await generateCommitCandidates(diff, count, guidance, useCache);
+      if (candidates.length === 0) {
+        throw new Error('Claude did not return any commit message candidates');
+      }
+      regenerate = false;
+      useCache = false;
+
+      console.log(chalk.blue('\n📝 Candidate commit messages:\n'));
+      candidates.forEach((candidate, index) => {
+        const [subject, ...rest] = candidate.split('\n');
+        console.log(`  ${chalk.bold(`${index + 1})`)} ${subject}`);
+        rest.forEach(line => console.log(chalk.gray(`     ${line}`)));
+      });
+      console.log('');
+    }
+
+    const range = candidates.length > 1 ? `1-${candidates.length}` : '1';
+    const answer = (await ask(
+      `Accept [${range}], (e)dit [n], (r)egenerate, (g)uidance, or (q)uit: `
+    )).toLowerCase();
+
+    if (answer === 'q' || answer === 'quit') {
+      return null;
+    }
+
+    if (answer === 'r' || answer === 'regenerate') {
+      regenerate = true;
+      continue;
+    }
+
+    if (answer === 'g' || answer === 'guidance') {
+      guidance = (await ask('Extra guidance for Claude (e.g. "mention the migration"): ')) || guidance;
+      regenerate = true;
+      continue;
+    }
+
+    const edit = answer.match(/^e(?:dit)?\s*(\d*)$/);
+    if (edit) {
+      const index = edit[1] ? parseInt(edit[1], 10) - 1 : 0;
+      if (!candidates[index]) {
+        console.log(chalk.red(`✗ No candidate ${edit[1]}`));
+        continue;
+      }
+      const edited = await editInEditor(candidates[index], [
+        'Edit the commit message above. Lines starting with # are ignored.',
+        'An empty message aborts the commit.'
+      ]);
+      return edited || null;
+    }
+
+    const choice = answer === '' ? 0 : parseInt(answer, 10) - 1;
+    if (candidates[choice] && (answer === '' || /^\d+$/.test(answer))) {
+      return candidates[choice];
+    }
+
+    console.log(chalk.red(`✗ Unrecognized choice '${answer}'`));
+  }
+}
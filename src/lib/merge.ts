@@ -0,0 +1,113 @@
+import { exec } from './exec';
+import { CheckInfo, MergeStrategy, MergeWaitResult } from './types';
+
+export const MERGE_STRATEGIES: MergeStrategy[] = ['squash', 'rebase', 'merge'];
+
+const POLL_INTERVAL = 15000;
+const FAILED_BUCKETS = ['fail', 'cancel'];
+
+// Merge states where auto-merge will not go ahead once the checks are done
+const BLOCKED_STATES: Record<string, string> = {
+  BLOCKED: 'required reviews or other branch protection rules are not satisfied',
+  DIRTY: 'the PR has merge conflicts with its base branch',
+  BEHIND: 'the branch is behind its base branch and must be updated'
+};
+
+// Known GitHub errors from `gh pr merge --auto`, with what to do about them
+const MERGE_ERRORS: Array<[RegExp, (strategy: MergeStrategy) => string]> = [
+  [/auto.?merge is not allowed|auto.?merge.*(disabled|not enabled)/i,
+    () => 'Auto-merge is turned off for this repository. Enable "Allow auto-merge" in the repository settings.'],
+  [/(merge method|merges? (are|is) not allowed|merging is not allowed)/i,
+    strategy => `The ${strategy} merge method is not allowed in this repository. Choose another with --strategy.`],
+  [/approving review|review.*required|changes requested/i,
+    () => 'The PR needs an approving review before it can merge.'],
+  [/conflict|not mergeable/i,
+    () => 'The PR has merge conflicts with its base branch. Update the branch and try again.'],
+  [/clean status/i,
+    strategy => `The PR can already be merged, so there is nothing to wait for. Merge it with: gh pr merge --${strategy}`],
+  [/resource not accessible|must have admin|permission/i,
+    () => 'The GitHub token is not allowed to merge this PR. It needs write access to contents and pull requests.']
+];
+
+/**
+ * Enable auto-merge for the current branch's PR
+ *
+ * Throws with an explanation of GitHub's reason when auto-merge cannot be enabled.
+ */
+export async function enableAutoMerge(strategy: MergeStrategy): Promise<void> {
+  try {
+    await exec('gh', ['pr', 'merge', '--auto', `--${strategy}`]);
+  } catch (error: any) {
+    const details = (error.stderr || error.message || String(error)).trim();
+    const known = MERGE_ERRORS.find(([pattern]) => pattern.test(details));
+    throw new Error(known ? `${known[1](strategy)}\n${details}` : details);
+  }
+}
+
+/**
+ * Get the required checks for the current branch's PR
+ */
+export async function getRequiredChecks(): Promise<CheckInfo[]> {
+  let output: string | null;
+  try {
+    output = await exec('gh', ['pr', 'checks', '--required', '--json', 'name,bucket,link']);
+  } catch (error: any) {
+    // gh exits non-zero while checks are pending or failing, but still prints them
+    output = error.stdout;
+    if (!output && !/no (required )?checks reported/i.test(error.stderr || '')) {
+      throw error;
+    }
+  }
+  return output ? JSON.parse(output) : [];
+}
+
+/**
+ * Explain why GitHub will not merge a PR in the given merge state
+ */
+export function describeMergeState(mergeState: string): string {
+  return BLOCKED_STATES[mergeState] || `merge state is ${mergeState.toLowerCase()}`;
+}
+
+/**
+ * Follow the required checks until the PR merges, a check fails or the timeout passes
+ *
+ * `onPending` is called whenever the set of pending checks changes.
+ */
+export async function waitForMerge(timeoutMs: number, onPending: (checks: CheckInfo[]) => void): Promise<MergeWaitResult> {
+  const deadline = Date.now() + timeoutMs;
+  let blockedPolls = 0;
+  let lastPending = '';
+
+  while (true) {
+    const pr = JSON.parse(await exec('gh', ['pr', 'view', '--json', 'state,mergeStateStatus']) || '{}');
+    const checks = await getRequiredChecks();
+    const result = (outcome: MergeWaitResult['outcome']): MergeWaitResult => ({ outcome, mergeState: pr.mergeStateStatus, checks });
+
+    if (pr.state === 'MERGED') {
+      return result('merged');
+    }
+    if (pr.state === 'CLOSED') {
+      return result('closed');
+    }
+    if (checks.some(check => FAILED_BUCKETS.includes(check.bucket))) {
+      return result('checks-failed');
+    }
+
+    // GitHub can report BLOCKED for a moment after the last check passes, so wait for a second poll
+    const pending = checks.filter(check => check.bucket === 'pending');
+    blockedPolls = pending.length === 0 && pr.mergeStateStatus in BLOCKED_STATES ? blockedPolls + 1 : 0;
+    if (blockedPolls >= 2) {
+      return result('blocked');
+    }
+    if (Date.now() >= deadline) {
+      return result('timeout');
+    }
+
+    const pendingNames = pending.map(check => check.name).join(',');
+    if (pendingNames !== lastPending) {
+      lastPending = pendingNames;
+      onPending(pending);
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+  }
+}
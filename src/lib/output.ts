@@ -0,0 +1,105 @@
+import execa from 'execa';
+import { writeSync } from 'fs';
+import chalk from 'chalk';
+import { CommandResult } from './types';
+import { noCache } from './cache';
+import { profileFlag } from './config';
+
+// Print a JSON result on stdout instead of the usual progress lines
+export const jsonOutput = process.argv.includes('--json');
+
+/**
+ * Exit codes, documented in the README so scripts can tell failures apart
+ */
+export enum ExitCode {
+  Success = 0,
+  Error = 1,
+  Usage = 2,
+  NothingToCommit = 3,
+  PushDiverged = 4,
+  PushFailed = 5,
+  AIFailed = 6,
+  PRFailed = 7,
+  AutoMergeFailed = 8,
+  ChecksFailed = 9,
+  PRClosed = 10,
+  MergeBlocked = 11,
+  WaitTimeout = 12,
+  SyncConflicts = 13
+}
+
+const result: Partial<CommandResult> = {};
+
+/**
+ * Switch to JSON output: progress moves to stderr and the result is printed on exit
+ *
+ * Printing from an exit handler covers every exit path, including process.exit calls.
+ */
+export function enableJsonOutput(command: string): void {
+  result.command = command;
+  console.log = console.error;
+  process.on('exit', code => {
+    const { error, ...fields } = result;
+    const output = { ok: code === ExitCode.Success, exitCode: code, ...fields, ...(error ? { error } : {}) };
+    writeSync(1, `${JSON.stringify(output, null, 2)}\n`);
+  });
+}
+
+/**
+ * Add fields to the JSON result
+ */
+export function setResult(fields: Partial<CommandResult>): void {
+  Object.assign(result, fields);
+}
+
+/**
+ * Exit with a code, recording the error in the JSON result
+ */
+export function exit(code: ExitCode, error?: unknown): never {
+  if (error !== undefined) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+  process.exit(code);
+}
+
+/**
+ * Print an error and exit
+ */
+export function fail(error: unknown, code: ExitCode = ExitCode.Error): never {
+  console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+  return exit(code, error);
+}
+
+/**
+ * Run another command's binary, as `pr` does with `commit`
+ *
+ * With --json the child also reports JSON, and its result fields are merged
+ * into ours. Returns the child's exit code.
+ */
+export async function runSubcommand(bin: string, extraArgs: string[] = []): Promise<ExitCode> {
+  const binPath = require.resolve(`../bin/${bin}`);
+  const debug = process.argv.includes('--debug') || process.argv.includes('-d');
+  const args = [
+    ...extraArgs,
+    ...(debug ? ['--debug'] : []),
+    ...(noCache ? ['--no-cache'] : []),
+    ...(profileFlag ? ['--profile', profileFlag] : [])
+  ];
+  // The running interpreter, which may not be the `node` on PATH (nvm, Volta)
+  if (!jsonOutput) {
+    const child = await execa(process.execPath, [binPath, ...args], { stdio: 'inherit', reject: false });
+    return child.exitCode;
+  }
+
+  const child = await execa(process.execPath, [binPath, ...args, '--json'], { stdio: ['inherit', 'pipe', 'inherit'], reject: false });
+  try {
+    const { ok, exitCode, command, error, ...fields } = JSON.parse(child.stdout) as CommandResult;
+    setResult(fields);
+    if (error && !ok) {
+      result.error = error;
+    }
+  } catch {
+    // A child that died before printing its result still has an exit code
+  }
+  return child.exitCode;
+}
@@ -0,0 +1,83 @@
+import { exec } from './exec';
+
+// The generated description lives between these markers; everything outside them is left alone
+const GENERATED_START = /<!-- gh-claude:start(?: sha=([0-9a-f]+))? -->/;
+const GENERATED_END = '<!-- gh-claude:end -->';
+
+const CHANGES_HEADING = '### 🔄 Changes since last update';
+
+/**
+ * Wrap generated content in markers recording the commit it was generated from
+ */
+export function wrapGeneratedContent(content: string, sha: string): string {
+  return `<!-- gh-claude:start sha=${sha} -->\n${content.trim()}\n${GENERATED_END}`;
+}
+
+/**
+ * Find the generated region of a PR body and the commit it was generated from
+ */
+function findGeneratedRegion(body: string): { start: number; end: number; sha: string | null } | null {
+  const match = GENERATED_START.exec(body);
+  const end = body.indexOf(GENERATED_END);
+  if (!match || end < match.index) {
+    return null;
+  }
+  return { start: match.index, end: end + GENERATED_END.length, sha: match[1] || null };
+}
+
+/**
+ * Whether a PR body has a generated region
+ */
+export function hasGeneratedRegion(body: string): boolean {
+  return findGeneratedRegion(body) !== null;
+}
+
+/**
+ * The commit the generated region of a PR body was last generated from
+ */
+export function getGeneratedSha(body: string): string | null {
+  return findGeneratedRegion(body)?.sha || null;
+}
+
+/**
+ * Replace only the generated region of a PR body
+ *
+ * A body without markers, such as one written by hand, is kept and the
+ * generated region is added below it.
+ */
+export function replaceGeneratedContent(body: string, content: string, sha: string): string {
+  const region = findGeneratedRegion(body);
+  if (!region) {
+    return body.trim() ? `${body.trimEnd()}\n\n${wrapGeneratedContent(content, sha)}` : wrapGeneratedContent(content, sha);
+  }
+  return body.slice(0, region.start) + wrapGeneratedContent(content, sha) + body.slice(region.end);
+}
+
+/**
+ * List the commits added since the description was last generated
+ *
+ * Returns null when there are none, or when the old commit is gone after a rebase.
+ */
+export async function formatChangesSinceUpdate(sha: string | null): Promise<string | null> {
+  if (!sha || await exec('git', ['merge-base', '--is-ancestor', sha, 'HEAD'], { throwOnError: false }) === null) {
+    return null;
+  }
+  const log = await exec('git', ['log', '--reverse', '--format=- %s (%h)', `${sha}..HEAD`], { throwOnError: false });
+  if (!log) {
+    return null;
+  }
+  return `${CHANGES_HEADING}\n\n${log}`;
+}
+
+/**
+ * Remove the markers and the list of changes since the last update from a PR body,
+ * leaving the description as a person would read it
+ */
+export function stripGeneratedMarkup(body: string): string {
+  return body
+    .replace(new RegExp(`${CHANGES_HEADING}\\n\\n(- .*(\\n|$))*`, 'g'), '')
+    .replace(new RegExp(GENERATED_START.source, 'g'), '')
+    .split(GENERATED_END).join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
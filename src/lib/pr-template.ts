@@ -0,0 +1,171 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { getRepoRoot, loadConfig } from './config';
+
+// GitHub looks in these directories, in this order, and ignores file name case
+const TEMPLATE_DIRS = ['.github', '.', 'docs'];
+const TEMPLATE_NAME = 'pull_request_template.md';
+const TEMPLATE_FOLDER = 'pull_request_template';
+
+export const UNANSWERED_MARKER = '_⚠️ Not filled in: could not be determined from the changes. Please complete._';
+
+interface TemplateSection {
+  heading: string | null;
+  lines: string[];
+}
+
+/**
+ * Find a directory entry by name, ignoring case
+ */
+async function findEntry(dir: string, name: string): Promise<string | null> {
+  try {
+    const entries = await fs.readdir(dir);
+    const match = entries.find(entry => entry.toLowerCase() === name);
+    return match ? path.join(dir, match) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pick one template from a PULL_REQUEST_TEMPLATE folder: the configured one, else `default.md` or the first
+ */
+async function pickFromFolder(folder: string, preferred?: string): Promise<string | null> {
+  const templates = (await fs.readdir(folder)).filter(entry => entry.toLowerCase().endsWith('.md')).sort();
+  const wanted = preferred ? [preferred, `${preferred}.md`] : ['default.md', TEMPLATE_NAME];
+  for (const name of wanted) {
+    const match = templates.find(entry => entry.toLowerCase() === name.toLowerCase());
+    if (match) {
+      return path.join(folder, match);
+    }
+  }
+  return !preferred && templates.length > 0 ? path.join(folder, templates[0]) : null;
+}
+
+/**
+ * Locate the repository's pull request template, if it has one
+ *
+ * `prTemplate` in config may name a file relative to the repo root or a
+ * template in a PULL_REQUEST_TEMPLATE folder; `false` disables templates.
+ */
+export async function findPRTemplate(): Promise<string | null> {
+  const config = await loadConfig();
+  const root = await getRepoRoot();
+  if (!root || config.prTemplate === false) {
+    return null;
+  }
+
+  if (config.prTemplate) {
+    const configured = path.join(root, config.prTemplate);
+    try {
+      return await fs.readFile(configured, 'utf8');
+    } catch {
+      // Not a path, so treat it as the name of a template in a folder
+    }
+  }
+
+  for (const dir of TEMPLATE_DIRS) {
+    const base = path.join(root, dir);
+    const file = await findEntry(base, TEMPLATE_NAME);
+    const folder = await findEntry(base, TEMPLATE_FOLDER);
+    const candidates = config.prTemplate ? [folder, file] : [file, folder];
+    for (const candidate of candidates) {
+      if (!candidate) {
+        continue;
+      }
+      const stat = await fs.stat(candidate);
+      const templatePath = stat.isDirectory()
+        ? await pickFromFolder(candidate, config.prTemplate || undefined)
+        : candidate;
+      if (templatePath) {
+        const template = await fs.readFile(templatePath, 'utf8');
+        if (template.trim()) {
+          return template;
+        }
+      }
+    }
+  }
+
+  if (config.prTemplate) {
+    throw new Error(`PR template not found: ${config.prTemplate}`);
+  }
+  return null;
+}
+
+/**
+ * Normalize a heading or checklist item for comparison
+ */
+function normalize(text: string): string {
+  return text
+    .replace(/^#+\s*/, '')
+    .replace(/^[-*]\s*\[[ xX]\]\s*/, '')
+    .replace(/[*_`:]/g, '')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Split markdown into sections at each heading, skipping HTML comments
+ */
+function parseSections(markdown: string): TemplateSection[] {
+  const sections: TemplateSection[] = [{ heading: null, lines: [] }];
+  const text = markdown.replace(/<!--[\s\S]*?-->/g, '');
+  for (const line of text.split('\n')) {
+    if (/^#{1,6}\s+\S/.test(line)) {
+      sections.push({ heading: line.trim(), lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Checklist items in a section
+ */
+function getChecklist(lines: string[]): string[] {
+  return lines.filter(line => /^\s*[-*]\s*\[[ xX]\]/.test(line)).map(line => line.trim());
+}
+
+/**
+ * Make sure a filled-in description still has every heading and checklist item of the template
+ *
+ * Missing sections are restored from the template and marked as unanswered,
+ * and checklist items the model dropped are put back unchecked.
+ */
+export function ensureTemplateStructure(body: string, template: string): string {
+  const output = parseSections(body);
+
+  // Index of the last template section seen in the output, so restored sections keep the template order
+  let previous = 0;
+  for (const section of parseSections(template)) {
+    if (!section.heading) {
+      continue;
+    }
+
+    const index = output.findIndex(candidate => candidate.heading && normalize(candidate.heading) === normalize(section.heading!));
+    const checklist = getChecklist(section.lines);
+    if (index === -1) {
+      const content = checklist.length > 0 ? checklist : [UNANSWERED_MARKER];
+      output.splice(++previous, 0, { heading: section.heading, lines: ['', ...content, ''] });
+      continue;
+    }
+    previous = index;
+    const match = output[index];
+
+    const present = new Set(getChecklist(match.lines).map(normalize));
+    const missing = checklist.filter(item => !present.has(normalize(item)));
+    if (missing.length > 0) {
+      while (match.lines.length > 0 && !match.lines[match.lines.length - 1].trim()) {
+        match.lines.pop();
+      }
+      match.lines.push(...missing, '');
+    }
+  }
+
+  return output
+    .map(section => [section.heading, ...section.lines].filter(line => line !== null).join('\n'))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
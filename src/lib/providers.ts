@@ -0,0 +1,196 @@
+import * as http from 'http';
+import * as https from 'https';
+import { AIProvider, ProviderName } from './types';
+import { exec } from './exec';
+
+const REQUEST_TIMEOUT = 90000;
+
+export const DEFAULT_MODELS: Record<ProviderName, string | null> = {
+  'claude-cli': null,
+  anthropic: 'claude-sonnet-4-5',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1'
+};
+
+export const CLAUDE_CLI_PACKAGE = '@anthropic-ai/claude-code';
+
+export const DEFAULT_BASE_URLS: Record<Exclude<ProviderName, 'claude-cli'>, string> = {
+  anthropic: 'https://api.anthropic.com',
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434'
+};
+
+interface ProviderOptions {
+  apiKey?: string | null;
+  model?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Join a base URL and an endpoint path without doubling slashes
+ */
+function joinUrl(baseUrl: string, endpoint: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
+}
+
+/**
+ * POST a JSON body and parse the JSON response
+ */
+function postJson(url: string, body: unknown, headers: Record<string, string>, label: string): Promise<any> {
+  const target = new URL(url);
+  const client = target.protocol === 'http:' ? http : https;
+  const payload = JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(target, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'content-length': Buffer.byteLength(payload).toString(),
+        ...headers
+      }
+    }, (res) => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => { data += chunk; });
+      res.on('end', () => {
+        let parsed: any;
+        try {
+          parsed = data ? JSON.parse(data) : {};
+        } catch {
+          parsed = null;
+        }
+        const status = res.statusCode || 0;
+        if (status < 200 || status >= 300) {
+          const detail = parsed?.error?.message || parsed?.error || data.slice(0, 500) || res.statusMessage;
+          reject(new Error(`${label} request failed (${status}): ${detail}`));
+          return;
+        }
+        if (parsed === null) {
+          reject(new Error(`${label} returned a response that is not valid JSON`));
+          return;
+        }
+        resolve(parsed);
+      });
+    });
+
+    req.setTimeout(REQUEST_TIMEOUT, () => {
+      req.destroy(new Error(`${label} timed out after ${REQUEST_TIMEOUT / 1000} seconds. The diff may be too large or the API is slow.`));
+    });
+    req.on('error', reject);
+    req.write(payload);
+    req.end();
+  });
+}
+
+/**
+ * Provider that shells out to the locally installed Claude CLI
+ */
+export function createClaudeCliProvider(options: ProviderOptions = {}): AIProvider {
+  return {
+    name: 'claude-cli',
+    model: options.model || DEFAULT_MODELS['claude-cli'],
+    async complete(prompt: string, input: string): Promise<string> {
+      const args = ['--print', prompt];
+      if (options.model) {
+        args.push('--model', options.model);
+      }
+      const env: Record<string, string> = options.apiKey ? { ANTHROPIC_API_KEY: options.apiKey } : {};
+      try {
+        const result = await exec('claude', args, { input, timeout: REQUEST_TIMEOUT, env });
+        return (result || '').trim();
+      } catch (error: any) {
+        if (error.timedOut) {
+          throw new Error('Claude CLI timed out after 90 seconds. The diff may be too large or Claude API is slow.');
+        }
+        if (error.code === 'ENOENT') {
+          throw new Error(`Claude CLI not found. Install with: npm install -g ${CLAUDE_CLI_PACKAGE}`);
+        }
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Provider that calls the Anthropic Messages API directly
+ */
+export function createAnthropicProvider(options: ProviderOptions): AIProvider {
+  if (!options.apiKey) {
+    throw new Error('An Anthropic API key is required for the anthropic provider');
+  }
+  const model = options.model || DEFAULT_MODELS.anthropic!;
+  const url = joinUrl(options.baseUrl || DEFAULT_BASE_URLS.anthropic, '/v1/messages');
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete(prompt: string, input: string): Promise<string> {
+      const response = await postJson(url, {
+        model,
+        max_tokens: 4096,
+        system: prompt,
+        messages: [{ role: 'user', content: input }]
+      }, {
+        'x-api-key': options.apiKey!,
+        'anthropic-version': '2023-06-01'
+      }, 'Anthropic API');
+
+      const text = (response.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+      return text.trim();
+    }
+  };
+}
+
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint
+ */
+export function createOpenAIProvider(options: ProviderOptions): AIProvider {
+  const model = options.model || DEFAULT_MODELS.openai!;
+  const url = joinUrl(options.baseUrl || DEFAULT_BASE_URLS.openai, '/chat/completions');
+  const headers: Record<string, string> = options.apiKey ? { authorization: `Bearer ${options.apiKey}` } : {};
+
+  return {
+    name: 'openai',
+    model,
+    async complete(prompt: string, input: string): Promise<string> {
+      const response = await postJson(url, {
+        model,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: input }
+        ]
+      }, headers, 'OpenAI-compatible API');
+
+      return (response.choices?.[0]?.message?.content || '').trim();
+    }
+  };
+}
+
+/**
+ * Provider for a local or remote Ollama server
+ */
+export function createOllamaProvider(options: ProviderOptions = {}): AIProvider {
+  const model = options.model || DEFAULT_MODELS.ollama!;
+  const url = joinUrl(options.baseUrl || DEFAULT_BASE_URLS.ollama, '/api/chat');
+
+  return {
+    name: 'ollama',
+    model,
+    async complete(prompt: string, input: string): Promise<string> {
+      const response = await postJson(url, {
+        model,
+        stream: false,
+        messages: [
+          { role: 'system', content: prompt },
+          { role: 'user', content: input }
+        ]
+      }, {}, 'Ollama');
+
+      return (response.message?.content || '').trim();
+    }
+  };
+}
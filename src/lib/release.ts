@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MergedPullRequest, ReleaseBump, ReleaseCommit, ReleaseGroup } from './types';
+import { exec } from './exec';
+import { getBaseBranch, getRepoRoot } from './config';
+import { parseCommitMessage } from './commitlint';
+
+export const CHANGELOG_FILE = 'CHANGELOG.md';
+
+// Field and record separators that cannot appear in commit messages
+const FIELD_SEP = '\x1f';
+const RECORD_SEP = '\x1e';
+
+const GROUP_TITLES: Record<string, string> = {
+  feat: 'Features',
+  fix: 'Bug Fixes',
+  perf: 'Performance',
+  refactor: 'Refactoring',
+  docs: 'Documentation',
+  test: 'Tests',
+  build: 'Build',
+  ci: 'CI',
+  style: 'Style',
+  chore: 'Chores',
+  revert: 'Reverts'
+};
+
+/**
+ * The most recent tag reachable from a ref, if any
+ */
+export async function getLatestTag(ref = 'HEAD'): Promise<string | null> {
+  const tag = await exec('git', ['describe', '--tags', '--abbrev=0', ref], { throwOnError: false });
+  return tag?.trim() || null;
+}
+
+/**
+ * Collect the commits between two refs, oldest first, skipping merge commits
+ */
+export async function collectReleaseCommits(from: string | null, to: string): Promise<ReleaseCommit[]> {
+  const range = from ? `${from}..${to}` : to;
+  const output = await exec('git', ['log', '--reverse', '--no-merges', `--format=%H${FIELD_SEP}%B${RECORD_SEP}`, range]);
+  return (output || '').split(RECORD_SEP).map(record => record.trim()).filter(Boolean).map(record => {
+    const [sha, message] = record.split(FIELD_SEP);
+    const subjectPR = message.split('\n')[0].match(/\(#(\d+)\)\s*$/);
+    return {
+      sha,
+      message: message.trim(),
+      parsed: parseCommitMessage(message),
+      pr: subjectPR ? parseInt(subjectPR[1], 10) : null
+    };
+  });
+}
+
+/**
+ * Find the merged PRs whose merge commits are part of the release
+ *
+ * Searches PRs merged into the base branch since the start of the range and
+ * keeps those whose merge commit is in it. Returns nothing when gh is unavailable.
+ */
+export async function collectMergedPRs(from: string | null, commits: ReleaseCommit[]): Promise<MergedPullRequest[]> {
+  const since = from ? (await exec('git', ['log', '-1', '--format=%cs', from], { throwOnError: false }))?.trim() : null;
+  const search = [`base:${await getBaseBranch()}`, since ? `merged:>=${since}` : ''].filter(Boolean).join(' ');
+  const output = await exec('gh', ['pr', 'list', '--state', 'merged', '--search', search, '--limit', '500',
+    '--json', 'number,title,url,author,mergeCommit'], { throwOnError: false });
+  if (!output) {
+    return [];
+  }
+
+  let prs: Array<{ number: number; title: string; url: string; author?: { login: string }; mergeCommit?: { oid: string } }>;
+  try {
+    prs = JSON.parse(output);
+  } catch {
+    return [];
+  }
+
+  const shas = new Set(commits.map(commit => commit.sha));
+  const numbers = new Set(commits.map(commit => commit.pr));
+  return prs
+    .filter(pr => (pr.mergeCommit && shas.has(pr.mergeCommit.oid)) || numbers.has(pr.number))
+    .map(pr => ({ number: pr.number, title: pr.title, url: pr.url, author: pr.author?.login || null, sha: pr.mergeCommit?.oid || null }));
+}
+
+/**
+ * Link each commit to the PR it was merged in, when known
+ */
+export function linkPullRequests(commits: ReleaseCommit[], prs: MergedPullRequest[]): void {
+  const bySha = new Map(prs.filter(pr => pr.sha).map(pr => [pr.sha, pr.number]));
+  for (const commit of commits) {
+    commit.pr = commit.pr ?? bySha.get(commit.sha) ?? null;
+  }
+}
+
+/**
+ * Group commits by conventional type, with breaking changes first and unparsed commits last
+ */
+export function groupCommits(commits: ReleaseCommit[]): ReleaseGroup[] {
+  const groups = new Map<string, ReleaseGroup>();
+  const add = (key: string, title: string, commit: ReleaseCommit) => {
+    if (!groups.has(key)) {
+      groups.set(key, { type: key, title, commits: [] });
+    }
+    groups.get(key)!.commits.push(commit);
+  };
+
+  for (const commit of commits) {
+    if (commit.parsed?.breaking) {
+      add('breaking', 'Breaking Changes', commit);
+      continue;
+    }
+    const type = commit.parsed?.type || 'other';
+    add(type, GROUP_TITLES[type] || (type === 'other' ? 'Other Changes' : type), commit);
+  }
+
+  const order = ['breaking', ...Object.keys(GROUP_TITLES)];
+  const rank = (type: string) => order.includes(type) ? order.indexOf(type) : type === 'other' ? Infinity : order.length;
+  return [...groups.values()].sort((a, b) => rank(a.type) - rank(b.type));
+}
+
+/**
+ * Decide the semver bump from the commits: breaking is major, features minor, anything else patch
+ */
+export function getReleaseBump(commits: ReleaseCommit[]): ReleaseBump {
+  if (commits.some(commit => commit.parsed?.breaking)) {
+    return 'major';
+  }
+  return commits.some(commit => commit.parsed?.type === 'feat') ? 'minor' : 'patch';
+}
+
+/**
+ * Suggest the next version after a tag, keeping its prefix such as `v`
+ *
+ * Before 1.0.0, breaking changes bump the minor version instead of the major.
+ */
+export function suggestNextVersion(tag: string | null, bump: ReleaseBump): string {
+  const match = tag?.match(/^(.*?)(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/);
+  if (!match) {
+    return 'v0.1.0';
+  }
+  const [, prefix, majorText, minorText, patchText] = match;
+  let [major, minor, patch] = [majorText, minorText, patchText].map(part => parseInt(part, 10));
+  const effective = bump === 'major' && major === 0 ? 'minor' : bump;
+  if (effective === 'major') {
+    [major, minor, patch] = [major + 1, 0, 0];
+  } else if (effective === 'minor') {
+    [minor, patch] = [minor + 1, 0];
+  } else {
+    patch++;
+  }
+  return `${prefix}${major}.${minor}.${patch}`;
+}
+
+/**
+ * Describe the grouped changes as input for the release notes prompt
+ */
+export function formatReleaseInput(groups: ReleaseGroup[], prs: MergedPullRequest[]): string {
+  const byNumber = new Map(prs.map(pr => [pr.number, pr]));
+  return groups.map(group => {
+    const lines = [`## ${group.title}`];
+    for (const commit of group.commits) {
+      const pr = commit.pr ? byNumber.get(commit.pr) : undefined;
+      const reference = commit.pr ? ` (#${commit.pr}${pr?.author ? ` by @${pr.author}` : ''})` : ` (${commit.sha.slice(0, 7)})`;
+      lines.push(`- ${commit.message.split('\n')[0].replace(/\s*\(#\d+\)$/, '')}${reference}`);
+      const details = [commit.parsed?.body, ...(commit.parsed?.footers || [])
+        .filter(footer => /^BREAKING[ -]CHANGE$/.test(footer.token))
+        .map(footer => `BREAKING CHANGE: ${footer.value}`)].filter(Boolean);
+      for (const detail of details) {
+        lines.push(...detail!.split('\n').map(line => `  ${line}`));
+      }
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Add a release section to CHANGELOG.md above the previous releases
+ */
+export async function updateChangelog(version: string, notes: string, date: string): Promise<string> {
+  const root = await getRepoRoot();
+  if (!root) {
+    throw new Error('Not in a git repository');
+  }
+
+  const file = path.join(root, CHANGELOG_FILE);
+  let contents: string;
+  try {
+    contents = await fs.readFile(file, 'utf8');
+  } catch {
+    contents = '# Changelog\n\nAll notable changes to this project are documented in this file.\n';
+  }
+
+  const escaped = version.replace(/^v/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  if (new RegExp(`^## \\[?v?${escaped}\\]?(\\s|$)`, 'm').test(contents)) {
+    throw new Error(`${CHANGELOG_FILE} already has an entry for ${version}`);
+  }
+
+  const section = `## [${version}] - ${date}\n\n${notes.trim()}\n`;
+  const firstRelease = contents.search(/^## /m);
+  const updated = firstRelease === -1
+    ? `${contents.trimEnd()}\n\n${section}`
+    : `${contents.slice(0, firstRelease)}${section}\n${contents.slice(firstRelease)}`;
+  await fs.writeFile(file, updated);
+  return file;
+}
@@ -0,0 +1,157 @@
+import { DiffFile, ReviewFinding, ReviewSeverity } from './types';
+import { exec } from './exec';
+import { parseDiff } from './diff';
+import { mapWithConcurrency, truncateToTokens } from './summarize';
+import { guardSensitiveContent } from './secrets';
+import { chalk, executeClaudeCommand, isDebug, isJsonArrayResponse, loadConfig, parseJsonResponse } from './helpers';
+import { renderTemplate } from './config';
+
+export const SEVERITIES: ReviewSeverity[] = ['nit', 'minor', 'major', 'critical'];
+
+const DEFAULT_REVIEW_PROMPT = 'You are reviewing one file of a pull request. Each line of the diff is prefixed with its line number in the new version of the file. Report real problems only: bugs, security issues, missing error handling, race conditions, incorrect logic and significant readability or performance issues. Do not comment on formatting or on lines that were not changed, and do not praise. For each problem give the new-file line number of an added or context line, a severity (critical, major, minor or nit) and a short actionable message. Output ONLY a JSON array like [{"line": 42, "severity": "major", "message": "..."}], or [] when there is nothing to report.';
+
+interface PullRequestRef {
+  number: number;
+  headRefOid: string;
+  url: string;
+}
+
+/**
+ * Look up a PR by number, or the PR for the current branch
+ */
+export async function getReviewTarget(number?: string): Promise<PullRequestRef> {
+  const output = await exec('gh', ['pr', 'view', ...(number ? [number] : []), '--json', 'number,headRefOid,url'], { throwOnError: false });
+  if (!output) {
+    throw new Error(number ? `PR #${number} not found` : 'No PR found for the current branch');
+  }
+  return JSON.parse(output);
+}
+
+/**
+ * Map new-file line numbers to GitHub diff positions
+ *
+ * The position counts lines from the first hunk header of the file, including
+ * later hunk headers, so it has to be computed from the same diff GitHub shows.
+ */
+export function getDiffPositions(file: DiffFile): Map<number, number> {
+  const positions = new Map<number, number>();
+  let position = 0;
+  file.hunks.forEach((hunk, index) => {
+    if (index > 0) {
+      position++;
+    }
+    let line = parseInt(hunk.header.match(/\+(\d+)/)?.[1] || '1', 10);
+    for (const text of hunk.lines) {
+      position++;
+      if (text.startsWith('+') || text.startsWith(' ')) {
+        positions.set(line++, position);
+      }
+    }
+  });
+  return positions;
+}
+
+/**
+ * Render a file's hunks with new-file line numbers for the model to cite
+ */
+function numberDiffLines(file: DiffFile): string {
+  const lines = [`File: ${file.path}`];
+  for (const hunk of file.hunks) {
+    lines.push(hunk.header);
+    let line = parseInt(hunk.header.match(/\+(\d+)/)?.[1] || '1', 10);
+    for (const text of hunk.lines) {
+      const number = text.startsWith('-') || text.startsWith('\\') ? '' : String(line++);
+      lines.push(`${number.padStart(5)} ${text}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Ask the model to review one file and return its findings
+ */
+async function reviewFile(file: DiffFile, maxTokens: number): Promise<ReviewFinding[]> {
+  const config = await loadConfig();
+  const prompt = renderTemplate(config.prompts.review || DEFAULT_REVIEW_PROMPT, { file: file.path });
+  const response = await executeClaudeCommand(prompt, truncateToTokens(numberDiffLines(file), maxTokens), { isValid: isJsonArrayResponse });
+  const findings = parseJsonResponse<Array<Partial<ReviewFinding>>>(response);
+  if (!Array.isArray(findings)) {
+    throw new Error(`Claude did not return a list of findings for ${file.path}`);
+  }
+  return findings
+    .filter(finding => finding && typeof finding.message === 'string' && Number.isInteger(Number(finding.line)))
+    .map(finding => ({
+      file: file.path,
+      line: Number(finding.line),
+      severity: SEVERITIES.includes(finding.severity as ReviewSeverity) ? finding.severity as ReviewSeverity : 'minor',
+      message: finding.message!.trim()
+    }));
+}
+
+/**
+ * Review every changed text file of a PR diff, at most `summaryConcurrency` files at a time
+ */
+export async function reviewDiff(diff: string, onProgress?: (message: string) => void): Promise<{ files: DiffFile[]; findings: ReviewFinding[] }> {
+  const config = await loadConfig();
+  const files = parseDiff(diff);
+
+  // Redaction keeps the line structure, so line numbers still match the real diff
+  const safeFiles = parseDiff(await guardSensitiveContent(diff))
+    .filter(file => !file.binary && file.hunks.length > 0 && !file.header.some(line => line.startsWith('deleted file')));
+
+  let done = 0;
+  const results = await mapWithConcurrency(safeFiles, config.summaryConcurrency, async file => {
+    try {
+      return await reviewFile(file, config.maxPRTokens);
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  Could not review ${file.path}`));
+      if (error instanceof Error && isDebug) {
+        console.log(chalk.gray(`Error details: ${error.message}`));
+      }
+      return [];
+    } finally {
+      onProgress?.(`✓ [${++done}/${safeFiles.length}] ${file.path}`);
+    }
+  });
+  return { files, findings: results.flat() };
+}
+
+/**
+ * Keep findings at or above a severity
+ */
+export function filterBySeverity(findings: ReviewFinding[], threshold: ReviewSeverity): ReviewFinding[] {
+  const minimum = SEVERITIES.indexOf(threshold);
+  return findings.filter(finding => SEVERITIES.indexOf(finding.severity) >= minimum);
+}
+
+/**
+ * Format a finding as a review comment
+ */
+function formatComment(finding: ReviewFinding): string {
+  return `**${finding.severity}**: ${finding.message}`;
+}
+
+/**
+ * Post findings as one pending review, putting findings outside the diff in the review body
+ */
+export async function postPendingReview(pr: PullRequestRef, files: DiffFile[], findings: ReviewFinding[]): Promise<{ inline: number; general: number }> {
+  const positions = new Map(files.map(file => [file.path, getDiffPositions(file)]));
+  const comments: Array<{ path: string; position: number; body: string }> = [];
+  const general: string[] = [];
+
+  for (const finding of findings) {
+    const position = positions.get(finding.file)?.get(finding.line);
+    if (position) {
+      comments.push({ path: finding.file, position, body: formatComment(finding) });
+    } else {
+      general.push(`- \`${finding.file}:${finding.line}\` ${formatComment(finding)}`);
+    }
+  }
+
+  const body = ['🤖 Automated review', ...(general.length > 0 ? ['', 'Comments outside the diff:', ...general] : [])].join('\n');
+  // Without an event the review stays pending until it is submitted on GitHub
+  await exec('gh', ['api', '--method', 'POST', `repos/{owner}/{repo}/pulls/${pr.number}/reviews`, '--input', '-'], {
+    input: JSON.stringify({ commit_id: pr.headRefOid, body, comments })
+  });
+  return { inline: comments.length, general: general.length };
+}
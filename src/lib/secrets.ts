@@ -0,0 +1,351 @@
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SecretFinding, SecretRule, SecretsFile } from './types';
+import { getRepoRoot, loadConfig, USER_CONFIG_PATH } from './config';
+
+export const SECRETS_FILE = '.ghclaude-secrets.json';
+
+// Marker that allows a single line, as in `token = "..." // gh-claude:allow`
+const INLINE_ALLOW = 'gh-claude:allow';
+
+const KEY_BLOCK_BEGIN = '-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----';
+const KEY_BLOCK_END = /-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/;
+const REDACTED_KEY = '[REDACTED:private-key]';
+
+const BUILTIN_RULES: SecretRule[] = [
+  { id: 'private-key', description: 'Private key block', pattern: KEY_BLOCK_BEGIN },
+  { id: 'aws-access-key', description: 'AWS access key ID', pattern: '\\b(AKIA|ASIA)[0-9A-Z]{16}\\b' },
+  { id: 'github-token', description: 'GitHub token', pattern: '\\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\\b' },
+  { id: 'anthropic-api-key', description: 'Anthropic API key', pattern: '\\bsk-ant-[A-Za-z0-9_-]{20,}' },
+  { id: 'openai-api-key', description: 'OpenAI API key', pattern: '\\bsk-(proj-)?[A-Za-z0-9]{20,}' },
+  { id: 'slack-token', description: 'Slack token', pattern: '\\bxox[baprs]-[A-Za-z0-9-]{10,}' },
+  { id: 'stripe-key', description: 'Stripe live key', pattern: '\\b[sr]k_live_[A-Za-z0-9]{20,}' },
+  { id: 'google-api-key', description: 'Google API key', pattern: '\\bAIza[0-9A-Za-z_-]{35}\\b' },
+  { id: 'credential-assignment', description: 'Hard-coded credential', pattern: '(api[_-]?key|secret|token|passw(or)?d)["\']?\\s*[:=]\\s*["\'](?![$%{<])[^"\'\\s]{8,}["\']', flags: 'i' }
+];
+
+const SENSITIVE_PATHS = [
+  { pattern: /(^|\/)\.env(\.(?!example$|sample$|template$)[\w.-]+)?$/, description: '.env files usually contain credentials' },
+  { pattern: /\.(pem|key|p12|pfx|keystore|jks)$/, description: 'Key or certificate store' },
+  { pattern: /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/, description: 'SSH private key' },
+  { pattern: /(^|\/)\.(netrc|pgpass)$/, description: 'Credentials file' }
+];
+
+// Lockfiles are full of integrity hashes that look random
+const ENTROPY_IGNORED_PATHS = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|go\.sum|poetry\.lock|Gemfile\.lock)$/;
+const ENTROPY_CANDIDATE = /["'=:]\s*["']?([A-Za-z0-9+/_-]{24,}={0,2})/g;
+const ENTROPY_THRESHOLD = 4.2;
+
+// Whether a private key block started on an earlier line and has not ended yet
+interface KeyBlockState {
+  open: boolean;
+}
+
+// Unrelated samples; rules that match all of them match anything
+const PROBE_SECRETS = ['x', 'sk-probe-value', 'password = "probe-value"'];
+const PROBE_PATHS = ['index.js', 'src/app/main.ts', 'docs/deploy/README.md', '.env'];
+
+let broadRulesWarned = false;
+
+interface SecretPolicy {
+  rules: Array<{ id: string; description: string; regex: RegExp }>;
+  allow: RegExp[];
+  ignorePaths: RegExp[];
+}
+
+/**
+ * Convert a gitignore-style glob to a regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*\*\/?/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]')
+    .replace(/\u0000/g, '.*');
+  return new RegExp(glob.includes('/') ? `^${pattern}$` : `(^|/)${pattern}$`);
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * Mask a secret so the report does not leak it
+ */
+function mask(value: string): string {
+  return value.length <= 8 ? '****' : `${value.slice(0, 4)}****${value.slice(-4)}`;
+}
+
+/**
+ * Load the built-in rules plus the repo's .ghclaude-secrets.json
+ */
+export async function loadSecretPolicy(): Promise<SecretPolicy> {
+  let file: SecretsFile = {};
+  const root = await getRepoRoot();
+  if (root) {
+    const filePath = path.join(root, SECRETS_FILE);
+    try {
+      file = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Invalid ${SECRETS_FILE}: ${error.message}`);
+      }
+    }
+  }
+
+  const policy = {
+    rules: [...BUILTIN_RULES, ...(file.rules || [])].map(rule => ({
+      id: rule.id,
+      description: rule.description || rule.id,
+      regex: new RegExp(rule.pattern, `g${(rule.flags || '').replace('g', '')}`)
+    })),
+    allow: (file.allow || []).map(pattern => new RegExp(pattern)),
+    ignorePaths: (file.ignorePaths || []).map(globToRegExp)
+  };
+
+  // The file comes with the repository, so make it obvious when it switches the scanner off
+  const allowsEverything = PROBE_SECRETS.every(value => policy.allow.some(allow => allow.test(value)));
+  const ignoresEverything = PROBE_PATHS.every(value => policy.ignorePaths.some(regex => regex.test(value)));
+  if ((allowsEverything || ignoresEverything) && !broadRulesWarned) {
+    broadRulesWarned = true;
+    console.log(chalk.yellow(`⚠️  ${SECRETS_FILE} ${allowsEverything ? '"allow"' : '"ignorePaths"'} covers everything, so secrets will not be detected; check who added it`));
+  }
+  return policy;
+}
+
+/**
+ * Find secrets in one line of text
+ */
+function scanLine(text: string, file: string | null, line: number | null, policy: SecretPolicy): SecretFinding[] {
+  if (text.includes(INLINE_ALLOW)) {
+    return [];
+  }
+
+  const findings: SecretFinding[] = [];
+  const isAllowed = (value: string) => policy.allow.some(allow => allow.test(value));
+
+  for (const rule of policy.rules) {
+    rule.regex.lastIndex = 0;
+    for (const match of text.matchAll(rule.regex)) {
+      if (!isAllowed(match[0])) {
+        findings.push({ rule: rule.id, description: rule.description, file, line, match: match[0] });
+      }
+    }
+  }
+
+  if (!file || !ENTROPY_IGNORED_PATHS.test(file)) {
+    for (const match of text.matchAll(ENTROPY_CANDIDATE)) {
+      const value = match[1];
+      const alreadyFound = findings.some(finding => finding.match.includes(value));
+      const mixed = /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value);
+      if (!alreadyFound && mixed && entropy(value) >= ENTROPY_THRESHOLD && !isAllowed(value)) {
+        findings.push({ rule: 'high-entropy', description: 'High-entropy string', file, line, match: value });
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Scan one line and redact what was found
+ *
+ * A private key is redacted from its BEGIN line through its END line, since
+ * only the BEGIN line matches a rule but every line of the block is secret.
+ */
+function scanAndRedact(
+  text: string,
+  file: string | null,
+  line: number | null,
+  policy: SecretPolicy,
+  keyBlock: KeyBlockState
+): { findings: SecretFinding[]; redacted: string } {
+  let prefix = '';
+  let rest = text;
+  if (keyBlock.open) {
+    const end = KEY_BLOCK_END.exec(text);
+    if (!end) {
+      return { findings: [], redacted: REDACTED_KEY };
+    }
+    keyBlock.open = false;
+    prefix = REDACTED_KEY;
+    rest = text.slice(end.index + end[0].length);
+  }
+
+  const findings = scanLine(rest, file, line, policy);
+  let redacted = rest;
+  if (findings.some(finding => finding.rule === 'private-key')) {
+    redacted = redacted.replace(new RegExp(`${KEY_BLOCK_BEGIN}.*?${KEY_BLOCK_END.source}`, 'g'), REDACTED_KEY);
+    const begin = new RegExp(KEY_BLOCK_BEGIN).exec(redacted);
+    if (begin) {
+      redacted = redacted.slice(0, begin.index) + REDACTED_KEY;
+      keyBlock.open = true;
+    }
+  }
+  for (const finding of findings) {
+    redacted = redacted.split(finding.match).join(`[REDACTED:${finding.rule}]`);
+  }
+  return { findings, redacted: prefix + redacted };
+}
+
+/**
+ * Scan a unified diff, returning findings and a redacted copy with the same line structure
+ */
+export function scanDiff(diff: string, policy: SecretPolicy): { findings: SecretFinding[]; redacted: string } {
+  const findings: SecretFinding[] = [];
+  const output: string[] = [];
+  let file: string | null = null;
+  let sensitive = false;
+  let ignored = false;
+  let lineNumber = 0;
+  // Inside a hunk `+++` and `---` are added or removed lines, not file headers
+  let inHunk = false;
+  // A key block without an END line is redacted to the end of its hunk
+  const keyBlock: KeyBlockState = { open: false };
+
+  for (const line of diff.split('\n')) {
+    const header = line.match(/^diff --git "?a\/.+? "?b\/(.+?)"?$/);
+    if (header) {
+      file = header[1];
+      inHunk = false;
+      keyBlock.open = false;
+      ignored = policy.ignorePaths.some(regex => regex.test(file!));
+      const sensitivePath = ignored ? undefined : SENSITIVE_PATHS.find(entry => entry.pattern.test(file!));
+      sensitive = !!sensitivePath;
+      if (sensitivePath) {
+        findings.push({ rule: 'sensitive-file', description: sensitivePath.description, file, line: null, match: path.basename(file) });
+      }
+      output.push(line);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+    if (hunk) {
+      lineNumber = parseInt(hunk[1], 10);
+      inHunk = true;
+      keyBlock.open = false;
+      output.push(line);
+      continue;
+    }
+
+    const isContent = inHunk && /^[ +-]/.test(line);
+    if (!isContent || ignored) {
+      output.push(line);
+      continue;
+    }
+
+    const current = line.startsWith('-') ? null : lineNumber++;
+    if (sensitive) {
+      output.push(`${line[0]}[REDACTED: sensitive file]`);
+      continue;
+    }
+
+    const scanned = scanAndRedact(line.slice(1), file, current, policy, keyBlock);
+    findings.push(...scanned.findings);
+    output.push(line[0] + scanned.redacted);
+  }
+
+  return { findings, redacted: output.join('\n') };
+}
+
+/**
+ * Scan plain text such as a log or file contents, checking every line
+ *
+ * `file` names where the text comes from, so path rules still apply.
+ */
+export function scanText(text: string, file: string | null, policy: SecretPolicy): { findings: SecretFinding[]; redacted: string } {
+  if (file && policy.ignorePaths.some(regex => regex.test(file))) {
+    return { findings: [], redacted: text };
+  }
+  const sensitivePath = file ? SENSITIVE_PATHS.find(entry => entry.pattern.test(file)) : undefined;
+  if (file && sensitivePath) {
+    return {
+      findings: [{ rule: 'sensitive-file', description: sensitivePath.description, file, line: null, match: path.basename(file) }],
+      redacted: '[REDACTED: sensitive file]'
+    };
+  }
+
+  // Line numbers of the text, not of the file it came from, so only shown without a file
+  const findings: SecretFinding[] = [];
+  const keyBlock: KeyBlockState = { open: false };
+  const output = text.split('\n').map((line, index) => {
+    const scanned = scanAndRedact(line, file, file ? null : index + 1, policy, keyBlock);
+    findings.push(...scanned.findings);
+    return scanned.redacted;
+  });
+  return { findings, redacted: output.join('\n') };
+}
+
+/**
+ * Print what the scanner found without revealing the secrets themselves
+ */
+function reportFindings(findings: SecretFinding[], what: string): void {
+  console.log(chalk.red(`\n🔒 Possible secrets found in the ${what} (${findings.length}):`));
+  for (const finding of findings) {
+    const location = finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''}` : `(${what}${finding.line ? ` line ${finding.line}` : ''})`;
+    console.log(`  ${chalk.bold(location)}  ${chalk.yellow(finding.rule)}  ${chalk.gray(`${finding.description}: ${mask(finding.match)}`)}`);
+  }
+  console.log('');
+}
+
+/**
+ * Block or redact the findings of a scan per config, returning the text to send
+ */
+async function applySecretPolicy(
+  text: string,
+  what: string,
+  scan: (policy: SecretPolicy) => { findings: SecretFinding[]; redacted: string }
+): Promise<string> {
+  const config = await loadConfig();
+  if (config.secretScan === 'off') {
+    return text;
+  }
+
+  const policy = await loadSecretPolicy();
+  const { findings, redacted } = scan(policy);
+  if (findings.length === 0) {
+    return text;
+  }
+
+  reportFindings(findings, what);
+  if (config.secretScan === 'redact') {
+    console.log(chalk.yellow(`⚠️  Redacted the matches above before sending the ${what} to Claude\n`));
+    return redacted;
+  }
+
+  console.log(chalk.yellow('Nothing was sent to Claude. To continue, either:'));
+  console.log(chalk.gray(`  1. Remove the secrets from the ${what}`));
+  console.log(chalk.gray(`  2. Allow false positives in ${SECRETS_FILE} or mark the line with "${INLINE_ALLOW}"`));
+  console.log(chalk.gray(`  3. Set "secretScan": "redact" in ${USER_CONFIG_PATH} to send a redacted copy\n`));
+  throw new Error(`Possible secrets detected in the ${what}`);
+}
+
+/**
+ * Scan a diff before it is sent to the model, then block or redact per config
+ *
+ * Returns the diff to send: unchanged when clean, redacted in `redact` mode.
+ */
+export function guardSensitiveContent(diff: string): Promise<string> {
+  return applySecretPolicy(diff, 'changes', policy => scanDiff(diff, policy));
+}
+
+/**
+ * Like guardSensitiveContent, for text that is not a diff, such as CI logs or conflicted files
+ */
+export function guardSensitiveText(text: string, what: string, file: string | null = null): Promise<string> {
+  return applySecretPolicy(text, what, policy => scanText(text, file, policy));
+}
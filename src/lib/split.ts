@@ -0,0 +1,282 @@
+import { CommitGroup, DiffFile } from './types';
+import { commitWithMessage, exec } from './exec';
+import { buildPartialPatch, countChanges, formatFileDiff, parseDiff } from './diff';
+import { formatCommitMessage, lintCommitMessage } from './commitlint';
+import { estimateTokens, truncateToTokens } from './summarize';
+import { guardSensitiveContent } from './secrets';
+import {
+  chalk,
+  executeClaudeCommand,
+  generateCommitMessage,
+  getCommitLintRules,
+  isDebug,
+  isJsonArrayResponse,
+  loadConfig,
+  parseJsonResponse,
+  shouldLintCommits
+} from './helpers';
+import { getRepoStyle, getStyleHint } from './style';
+import { confirm, isInteractive } from './interactive';
+
+const MAX_LISTING_TOKENS = 12000;
+const SAMPLE_LINES_PER_HUNK = 12;
+
+interface PlannedCommit {
+  message: string | null;
+  files: Array<{ file: DiffFile; hunks: number[] }>;
+}
+
+/**
+ * Collect every working tree change, including untracked files, as parsed diffs
+ *
+ * Unstages everything and marks untracked files intent-to-add so they show up
+ * in `git diff` and can be staged hunk by hunk.
+ */
+async function collectChanges(): Promise<string> {
+  await exec('git', ['reset', '-q']);
+  await exec('git', ['add', '-A', '--intent-to-add']);
+  return await exec('git', ['diff', '--no-color', '--no-ext-diff', '--no-renames']) || '';
+}
+
+/**
+ * Describe the changes with hunk ids for the planning prompt
+ */
+function describeChanges(files: DiffFile[], sampleLines: number): string {
+  return files.map((file, fileIndex) => {
+    const { added, removed } = countChanges(file);
+    const kind = file.header.some(line => line.startsWith('new file')) ? 'new'
+      : file.header.some(line => line.startsWith('deleted file')) ? 'deleted'
+      : 'modified';
+    const lines = [`[${fileIndex + 1}] ${file.path} (${kind}${file.binary ? ', binary' : ''}, +${added} -${removed})`];
+
+    file.hunks.forEach((hunk, hunkIndex) => {
+      lines.push(`  [${fileIndex + 1}:${hunkIndex + 1}] ${hunk.header}`);
+      const changed = hunk.lines.filter(line => line.startsWith('+') || line.startsWith('-'));
+      changed.slice(0, sampleLines).forEach(line => lines.push(`    ${line}`));
+      if (changed.length > sampleLines) {
+        lines.push(`    ... ${changed.length - sampleLines} more changed lines`);
+      }
+    });
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Ask Claude to group the changes into separate commits
+ */
+async function planCommits(files: DiffFile[], safeFiles: DiffFile[]): Promise<PlannedCommit[]> {
+  const config = await loadConfig();
+  const { style, examples } = await getRepoStyle();
+  const messageFormat = style === 'conventional'
+    ? `a conventional commit message: a header "<type>(<scope>): <description>" under ${config.maxSubjectLength} chars using types ${config.commitTypes.join('/')}.`
+    : `a commit message in the style of this repository, with a subject under ${config.maxSubjectLength} chars. ${await getStyleHint(style)}`;
+  const recentSubjects = examples.length > 0
+    ? ` Recent subjects for reference: ${examples.map(example => JSON.stringify(example.split('\n')[0])).join(', ')}.`
+    : '';
+  const prompt = `Group these working tree changes into a small number of coherent, logically separate commits (for example a refactor, a bug fix and a docs change). Each hunk is labelled [file:hunk]; a bare [file] id means the whole file. Assign every hunk to exactly one commit and keep hunks of the same file together unless they are clearly unrelated. Order the commits so each one builds on the previous. For each commit write ${messageFormat} Follow the header with a blank line and a short body explaining why.${recentSubjects} Output ONLY a JSON array like [{"message": "fix: handle empty input", "hunks": ["1", "2:1"]}].`;
+
+  let listing = describeChanges(safeFiles, SAMPLE_LINES_PER_HUNK);
+  if (estimateTokens(listing) > MAX_LISTING_TOKENS) {
+    listing = truncateToTokens(describeChanges(safeFiles, 0), MAX_LISTING_TOKENS);
+  }
+
+  const response = await executeClaudeCommand(prompt, listing, { isValid: isJsonArrayResponse });
+  const groups = parseJsonResponse<CommitGroup[]>(response);
+  if (!Array.isArray(groups)) {
+    throw new Error('Claude did not return a list of commits');
+  }
+  return resolvePlan(groups, files);
+}
+
+/**
+ * Map hunk ids back to files, dropping duplicates and collecting anything left out
+ */
+function resolvePlan(groups: CommitGroup[], files: DiffFile[]): PlannedCommit[] {
+  const assigned = files.map(file => new Set<number>());
+  const plan: PlannedCommit[] = [];
+
+  const take = (selection: Map<number, number[]>, fileIndex: number, hunkIndex: number) => {
+    if (assigned[fileIndex].has(hunkIndex)) {
+      return;
+    }
+    assigned[fileIndex].add(hunkIndex);
+    selection.set(fileIndex, [...(selection.get(fileIndex) || []), hunkIndex]);
+  };
+
+  for (const group of groups) {
+    const selection = new Map<number, number[]>();
+    for (const id of group.hunks || []) {
+      const match = String(id).match(/^\[?(\d+)(?::(\d+))?\]?$/);
+      const file = match && files[parseInt(match[1], 10) - 1];
+      if (!match || !file) {
+        if (isDebug) {
+          console.log(chalk.gray(`🔧 Ignoring unknown hunk id: ${id}`));
+        }
+        continue;
+      }
+      const fileIndex = parseInt(match[1], 10) - 1;
+      if (match[2]) {
+        const hunkIndex = parseInt(match[2], 10) - 1;
+        if (hunkIndex < file.hunks.length) {
+          take(selection, fileIndex, hunkIndex);
+        }
+      } else {
+        // Files without hunks (binary, mode-only) are tracked as hunk 0
+        const count = Math.max(file.hunks.length, 1);
+        for (let hunkIndex = 0; hunkIndex < count; hunkIndex++) {
+          take(selection, fileIndex, hunkIndex);
+        }
+      }
+    }
+    if (selection.size > 0) {
+      plan.push({
+        message: group.message ? formatCommitMessage(group.message) : null,
+        files: [...selection.entries()].map(([fileIndex, hunks]) => ({ file: files[fileIndex], hunks }))
+      });
+    }
+  }
+
+  const leftover: PlannedCommit = { message: null, files: [] };
+  files.forEach((file, fileIndex) => {
+    const count = Math.max(file.hunks.length, 1);
+    const missing = [];
+    for (let hunkIndex = 0; hunkIndex < count; hunkIndex++) {
+      if (!assigned[fileIndex].has(hunkIndex)) {
+        missing.push(hunkIndex);
+      }
+    }
+    if (missing.length > 0) {
+      leftover.files.push({ file, hunks: missing });
+    }
+  });
+  if (leftover.files.length > 0) {
+    plan.push(leftover);
+  }
+
+  return plan;
+}
+
+/**
+ * Whether a planned entry covers the whole file rather than some of its hunks
+ */
+function isWholeFile(file: DiffFile, hunks: number[]): boolean {
+  return file.binary || hunks.length >= Math.max(file.hunks.length, 1);
+}
+
+/**
+ * Print the proposed commits
+ */
+function printPlan(plan: PlannedCommit[]): void {
+  console.log(chalk.blue(`\n📋 Proposed commits (${plan.length}):\n`));
+  plan.forEach((commit, index) => {
+    const [subject] = (commit.message || '(message generated when committing)').split('\n');
+    console.log(`  ${chalk.bold(`${index + 1})`)} ${subject}`);
+    for (const { file, hunks } of commit.files) {
+      const detail = isWholeFile(file, hunks) ? '' : chalk.gray(` (${hunks.length} of ${file.hunks.length} hunks)`);
+      console.log(chalk.gray(`     ${file.path}`) + detail);
+    }
+  });
+  console.log('');
+}
+
+/**
+ * Stage exactly the files and hunks of one planned commit
+ */
+async function stageCommit(commit: PlannedCommit): Promise<void> {
+  const wholeFiles = commit.files.filter(({ file, hunks }) => isWholeFile(file, hunks));
+  if (wholeFiles.length > 0) {
+    await exec('git', ['add', '-A', '--', ...wholeFiles.map(({ file }) => file.path)]);
+  }
+
+  for (const { file, hunks } of commit.files) {
+    if (isWholeFile(file, hunks)) {
+      continue;
+    }
+    const selected = hunks.sort((a, b) => a - b).map(index => file.hunks[index]);
+    await exec('git', ['apply', '--cached', '--recount', '-'], { input: buildPartialPatch(file, selected) });
+  }
+}
+
+/**
+ * Run a step that calls the model, marking its errors so callers can tell them from git failures
+ */
+async function aiStep<T>(step: () => Promise<T>): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    throw Object.assign(error instanceof Error ? error : new Error(String(error)), { aiFailed: true });
+  }
+}
+
+/**
+ * Whether a split failed because of the model rather than git
+ */
+export function isAIFailure(error: unknown): boolean {
+  return error instanceof Error && (error as Error & { aiFailed?: boolean }).aiFailed === true;
+}
+
+/**
+ * Split the working tree into several commits planned by Claude
+ *
+ * The index is saved first and put back whenever the split does not finish,
+ * so a failed or aborted split leaves the user's staging as it was.
+ */
+export async function splitCommits(): Promise<number> {
+  const savedIndex = await exec('git', ['write-tree']);
+  let created = 0;
+  let finished = false;
+  try {
+    console.log(chalk.yellow('🔍 Collecting changes...'));
+    const diff = await collectChanges();
+    const files = parseDiff(diff);
+    if (files.length === 0) {
+      console.log(chalk.green('✅ No changes to commit'));
+      return 0;
+    }
+
+    // Redaction keeps the line structure, so hunk ids line up with the real diff
+    const safeFiles = parseDiff(await guardSensitiveContent(diff));
+
+    console.log(chalk.yellow(`🤖 Planning commits for ${files.length} changed files...`));
+    const plan = await aiStep(() => planCommits(files, safeFiles));
+    printPlan(plan);
+
+    if (isInteractive() && !(await confirm(`Create these ${plan.length} commits?`))) {
+      console.log(chalk.yellow('✗ Split aborted'));
+      return 0;
+    }
+
+    const lint = await shouldLintCommits();
+    const rules = await getCommitLintRules();
+    for (const [index, commit] of plan.entries()) {
+      await stageCommit(commit);
+
+      // Planned messages are only a sketch; regenerate any that are missing or fail validation
+      let message = commit.message;
+      if (!message || (lint && lintCommitMessage(message, rules).length > 0)) {
+        const staged = commit.files.map(({ file, hunks }) =>
+          formatFileDiff(file, isWholeFile(file, hunks) ? file.hunks : hunks.map(i => file.hunks[i]))
+        ).join('');
+        console.log(chalk.yellow(`🤖 Generating commit message for group ${index + 1}...`));
+        message = await aiStep(() => generateCommitMessage(staged));
+      }
+
+      try {
+        await commitWithMessage(message);
+      } catch (error) {
+        console.log(chalk.red(`✗ Commit ${index + 1} of ${plan.length} failed`));
+        throw error;
+      }
+      created++;
+      console.log(chalk.green(`✓ [${index + 1}/${plan.length}] ${message.split('\n')[0]}`));
+    }
+
+    finished = true;
+    return created;
+  } finally {
+    if (!finished) {
+      // Once commits exist the saved index no longer matches HEAD, so only unstage what is left
+      await exec('git', created === 0 ? ['read-tree', savedIndex!] : ['reset', '-q']);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { PullRequestInfo } from './types';
+import { exec, withTempFile } from './exec';
+import { getBaseBranch, getRemote } from './config';
+
+// Stored as `branch.<name>.ghclaudeParent` in the local git config
+const PARENT_KEY = 'ghclaudeParent';
+
+const STACK_START = '<!-- gh-claude:stack -->';
+const STACK_END = '<!-- /gh-claude:stack -->';
+
+/**
+ * Get the recorded parent of a stacked branch
+ */
+export async function getParentBranch(branch: string): Promise<string | null> {
+  const parent = await exec('git', ['config', '--get', `branch.${branch}.${PARENT_KEY}`], { throwOnError: false });
+  return parent?.trim() || null;
+}
+
+/**
+ * Record (or clear, with null) the parent of a stacked branch
+ */
+export async function setParentBranch(branch: string, parent: string | null): Promise<void> {
+  if (parent) {
+    await exec('git', ['config', `branch.${branch}.${PARENT_KEY}`, parent]);
+  } else {
+    await exec('git', ['config', '--unset', `branch.${branch}.${PARENT_KEY}`], { throwOnError: false });
+  }
+}
+
+/**
+ * Map every stacked branch to its recorded parent
+ */
+export async function getAllParents(): Promise<Map<string, string>> {
+  const output = await exec('git', ['config', '--get-regexp', `^branch\\..*\\.${PARENT_KEY.toLowerCase()}$`], { throwOnError: false });
+  const parents = new Map<string, string>();
+  for (const line of (output || '').split('\n').filter(Boolean)) {
+    const [key, parent] = line.split(' ');
+    const branch = key.slice('branch.'.length, -(PARENT_KEY.length + 1));
+    parents.set(branch, parent);
+  }
+  return parents;
+}
+
+/**
+ * The branch a PR for this branch should target: its stack parent or the base branch
+ */
+export async function getTargetBranch(branch: string): Promise<string> {
+  return (await getParentBranch(branch)) || getBaseBranch();
+}
+
+/**
+ * List the stack containing a branch, from the branch that targets the base branch to the top
+ *
+ * Children are followed depth first, so a branch with several children lists all of them.
+ */
+export async function getStack(branch: string): Promise<string[]> {
+  const parents = await getAllParents();
+  const base = await getBaseBranch();
+
+  let bottom = branch;
+  const seen = new Set([bottom]);
+  while (parents.has(bottom) && parents.get(bottom) !== base && !seen.has(parents.get(bottom)!)) {
+    bottom = parents.get(bottom)!;
+    seen.add(bottom);
+  }
+
+  const stack: string[] = [];
+  const visit = (current: string) => {
+    stack.push(current);
+    for (const [child, parent] of parents) {
+      if (parent === current && !stack.includes(child)) {
+        visit(child);
+      }
+    }
+  };
+  visit(bottom);
+  return stack;
+}
+
+/**
+ * Look up the most recent PR whose head is the given branch
+ */
+export async function getPullRequest(branch: string): Promise<PullRequestInfo | null> {
+  const output = await exec('gh', ['pr', 'view', branch, '--json', 'number,url,state,baseRefName,body'], { throwOnError: false });
+  if (!output) {
+    return null;
+  }
+  try {
+    return JSON.parse(output);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render the stack navigation section for one PR in the stack
+ */
+export function formatStackSection(stack: string[], prs: Map<string, PullRequestInfo>, current: string, base: string): string {
+  const lines = [STACK_START, '### 📚 Stacked PRs', ''];
+  stack.forEach((branch, index) => {
+    const pr = prs.get(branch);
+    const label = pr ? `#${pr.number}` : `\`${branch}\` (no PR yet)`;
+    const merged = pr?.state === 'MERGED' ? ' ✅' : '';
+    lines.push(branch === current
+      ? `${index + 1}. 👉 **${label}** (this PR)${merged}`
+      : `${index + 1}. ${label}${merged}`);
+  });
+  lines.push('', `Merge from the top: the first PR targets \`${base}\` and each PR after it targets the one above.`, STACK_END);
+  return lines.join('\n');
+}
+
+/**
+ * Insert or replace the stack navigation section in a PR body
+ */
+export function replaceStackSection(body: string, section: string): string {
+  const start = body.indexOf(STACK_START);
+  const end = body.indexOf(STACK_END);
+  if (start !== -1 && end > start) {
+    return body.slice(0, start) + section + body.slice(end + STACK_END.length);
+  }
+  return `${body.trimEnd()}\n\n${section}\n`;
+}
+
+/**
+ * Remove the stack navigation section from a PR body
+ */
+export function removeStackSection(body: string): string {
+  const start = body.indexOf(STACK_START);
+  const end = body.indexOf(STACK_END);
+  return start !== -1 && end > start ? body.slice(0, start) + body.slice(end + STACK_END.length) : body;
+}
+
+/**
+ * Refresh the stack navigation section of every open PR in the branch's stack
+ */
+export async function updateStackNavigation(branch: string): Promise<number> {
+  const stack = await getStack(branch);
+  if (stack.length < 2) {
+    return 0;
+  }
+
+  const prs = new Map<string, PullRequestInfo>();
+  for (const member of stack) {
+    const pr = await getPullRequest(member);
+    if (pr) {
+      prs.set(member, pr);
+    }
+  }
+
+  const bottomParent = await getParentBranch(stack[0]);
+  const base = bottomParent || await getBaseBranch();
+  let updated = 0;
+  for (const [member, pr] of prs) {
+    if (pr.state !== 'OPEN') {
+      continue;
+    }
+    const body = replaceStackSection(pr.body || '', formatStackSection(stack, prs, member, base));
+    if (body !== pr.body) {
+      await withTempFile('pr-stack', body, file =>
+        exec('gh', ['pr', 'edit', String(pr.number), '--body-file', file])
+      );
+      updated++;
+    }
+  }
+  return updated;
+}
+
+/**
+ * Resolve a branch name to the ref to compare against, preferring the remote copy
+ */
+export async function resolveBranchRef(branch: string): Promise<string> {
+  const remote = await getRemote();
+  const remoteRef = `${remote}/${branch}`;
+  const exists = await exec('git', ['rev-parse', '--verify', '--quiet', `refs/remotes/${remoteRef}`], { throwOnError: false });
+  return exists ? remoteRef : branch;
+}
@@ -0,0 +1,150 @@
+import { CommitStyle, RepoStyle } from './types';
+import { exec } from './exec';
+import { loadConfig } from './config';
+import { stripGeneratedMarkup } from './pr-body';
+import { guardSensitiveText } from './secrets';
+import { removeStackSection } from './stack';
+
+// How many recent commits to classify, and how many to show the model
+const HISTORY_SIZE = 50;
+const MAX_COMMIT_EXAMPLES = 5;
+const MAX_EXAMPLE_BODY_LINES = 8;
+const MAX_PR_EXAMPLES = 3;
+const MAX_PR_BODY_LENGTH = 1500;
+
+// Too little history to tell; keep the conventional default
+const MIN_HISTORY = 5;
+
+export const COMMIT_STYLES: CommitStyle[] = ['conventional', 'ticket', 'gitmoji', 'plain'];
+
+const STYLE_PATTERNS: Array<[CommitStyle, RegExp]> = [
+  ['conventional', /^\w+(\([^)]*\))?!?: \S/],
+  ['ticket', /^\[?[A-Z][A-Z0-9]+-\d+\]?:?\s/],
+  ['gitmoji', /^(:\w+:|\p{Extended_Pictographic})/u]
+];
+
+const TICKET_PATTERN = /[A-Z][A-Z0-9]+-\d+/i;
+
+const RECORD_SEPARATOR = '\x1e';
+
+let stylePromise: Promise<RepoStyle> | null = null;
+let prExamplesPromise: Promise<string[]> | null = null;
+
+/**
+ * Classify a commit subject
+ */
+export function classifySubject(subject: string): CommitStyle {
+  return STYLE_PATTERNS.find(([, pattern]) => pattern.test(subject))?.[0] || 'plain';
+}
+
+/**
+ * Pick the style most of the subjects are written in
+ */
+export function detectCommitStyle(subjects: string[]): CommitStyle {
+  if (subjects.length < MIN_HISTORY) {
+    return 'conventional';
+  }
+  const counts = new Map<CommitStyle, number>();
+  for (const subject of subjects) {
+    const style = classifySubject(subject);
+    counts.set(style, (counts.get(style) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Shorten a commit message to its subject and the start of its body
+ */
+function trimExample(message: string): string {
+  const lines = message.trim().split('\n');
+  return lines.length > MAX_EXAMPLE_BODY_LINES + 2
+    ? [...lines.slice(0, MAX_EXAMPLE_BODY_LINES + 2), '...'].join('\n')
+    : lines.join('\n');
+}
+
+/**
+ * Scan examples taken from the history for secrets before they go into a prompt
+ */
+async function guardExamples(examples: string[], what: string): Promise<string[]> {
+  if (examples.length === 0) {
+    return examples;
+  }
+  const separator = `\n${RECORD_SEPARATOR}\n`;
+  return (await guardSensitiveText(examples.join(separator), what)).split(separator);
+}
+
+/**
+ * Work out the repository's commit style from its recent history, unless `commitStyle` sets it
+ */
+export function getRepoStyle(): Promise<RepoStyle> {
+  if (!stylePromise) {
+    stylePromise = (async () => {
+      const config = await loadConfig();
+      if (config.commitStyle !== 'auto' && !COMMIT_STYLES.includes(config.commitStyle)) {
+        throw new Error(`Unknown commitStyle "${config.commitStyle}"; use auto, ${COMMIT_STYLES.join(', ')}`);
+      }
+      const log = await exec('git', ['log', '--no-merges', `-n${HISTORY_SIZE}`, `--format=%B${RECORD_SEPARATOR}`], { throwOnError: false });
+      const messages = (log || '').split(RECORD_SEPARATOR).map(message => message.trim()).filter(Boolean);
+      const subjects = messages.map(message => message.split('\n')[0]);
+
+      const detected = config.commitStyle === 'auto';
+      const style = detected ? detectCommitStyle(subjects) : config.commitStyle as CommitStyle;
+      const examples = await guardExamples(messages
+        .filter(message => classifySubject(message.split('\n')[0]) === style)
+        .slice(0, MAX_COMMIT_EXAMPLES)
+        .map(trimExample), 'example commit messages');
+      return { style, detected, examples };
+    })();
+  }
+  return stylePromise;
+}
+
+/**
+ * Describe how to write the subject line in a non-conventional style
+ */
+export async function getStyleHint(style: CommitStyle): Promise<string> {
+  if (style === 'ticket') {
+    const branch = await exec('git', ['branch', '--show-current'], { throwOnError: false });
+    const ticket = branch?.match(TICKET_PATTERN)?.[0].toUpperCase();
+    return ticket
+      ? `Start the subject with the ticket key ${ticket}, written the same way as in the example messages.`
+      : 'Start the subject with the ticket key, written the same way as in the example messages, if the changes or the guidance name one.';
+  }
+  if (style === 'gitmoji') {
+    return 'Start the subject with the gitmoji that fits the change (for example ✨ for features, 🐛 for bug fixes, 📝 for docs, ♻️ for refactoring), written the same way as in the example messages.';
+  }
+  return 'Write the subject as a short imperative sentence without a type prefix, matching the capitalization of the example messages.';
+}
+
+/**
+ * Format example messages as few-shot context for a prompt
+ */
+export function formatExamples(intro: string, examples: string[]): string {
+  return examples.length > 0
+    ? `\n\n${intro}\n\n${examples.map((example, index) => `Example ${index + 1}:\n${example}`).join('\n\n')}`
+    : '';
+}
+
+/**
+ * Titles and descriptions of recently merged pull requests, empty when gh cannot list them
+ */
+export function getPRExamples(): Promise<string[]> {
+  if (!prExamplesPromise) {
+    prExamplesPromise = (async () => {
+      const output = await exec('gh', ['pr', 'list', '--state', 'merged', '--limit', '10', '--json', 'title,body'], { throwOnError: false });
+      let prs: Array<{ title: string; body: string }> = [];
+      try {
+        prs = JSON.parse(output || '[]');
+      } catch {
+        return [];
+      }
+      // Our own markers and navigation sections are not part of the repository's style
+      return guardExamples(prs
+        .map(pr => ({ title: pr.title, body: stripGeneratedMarkup(removeStackSection((pr.body || '').replace(/\r\n/g, '\n'))) }))
+        .filter(pr => pr.body)
+        .slice(0, MAX_PR_EXAMPLES)
+        .map(pr => `${pr.title}\n\n${pr.body.length > MAX_PR_BODY_LENGTH ? `${pr.body.slice(0, MAX_PR_BODY_LENGTH)}\n...` : pr.body}`), 'example pull requests');
+    })();
+  }
+  return prExamplesPromise;
+}
@@ -0,0 +1,125 @@
+import { DiffHunk, SummarizeOptions } from './types';
+import { formatFileDiff, parseDiff } from './diff';
+
+// Rough average for code and prose; real tokenizers vary by model
+const CHARS_PER_TOKEN = 3.5;
+const MAX_SUMMARY_DEPTH = 3;
+
+const SUMMARY_PROMPT = 'Summarize these code changes for someone who will write a commit message or PR description from your summary. For each file give the path and one to three terse bullets on what changed and why it matters. Mention renamed, added and deleted files explicitly. Output ONLY the summary.';
+
+const REDUCE_PROMPT = 'Condense these change summaries into a shorter summary that still mentions every file or area that changed. Output ONLY the summary.';
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Cut text down to roughly the given number of tokens
+ */
+export function truncateToTokens(text: string, maxTokens: number, note = '[truncated due to size]'): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  return text.slice(0, Math.floor(maxTokens * CHARS_PER_TOKEN)) + `\n${note}`;
+}
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+}
+
+/**
+ * Greedily pack consecutive pieces into chunks under the token limit
+ */
+function packChunks(pieces: string[], maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && estimateTokens(current + piece) > maxTokens) {
+      chunks.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+/**
+ * Split a diff into chunks of whole files, splitting oversized files by hunk
+ */
+export function chunkDiff(diff: string, maxTokens: number): string[] {
+  const files = parseDiff(diff);
+  if (files.length === 0) {
+    const lines = diff.split('\n').map(line => `${line}\n`);
+    return packChunks(lines, maxTokens).map(chunk => truncateToTokens(chunk, maxTokens));
+  }
+
+  const pieces: string[] = [];
+  for (const file of files) {
+    const text = formatFileDiff(file);
+    if (estimateTokens(text) <= maxTokens) {
+      pieces.push(text);
+      continue;
+    }
+
+    let current: DiffHunk[] = [];
+    for (const hunk of file.hunks) {
+      if (current.length > 0 && estimateTokens(formatFileDiff(file, [...current, hunk])) > maxTokens) {
+        pieces.push(truncateToTokens(formatFileDiff(file, current), maxTokens));
+        current = [];
+      }
+      current.push(hunk);
+    }
+    pieces.push(truncateToTokens(formatFileDiff(file, current), maxTokens));
+  }
+  return packChunks(pieces, maxTokens);
+}
+
+/**
+ * Fit a diff into the token budget, summarizing it chunk by chunk when it is too large
+ *
+ * Chunks are summarized in parallel, then the summaries are condensed again
+ * until they fit, so every file is represented instead of only the first few.
+ */
+export async function summarizeDiff(diff: string, options: SummarizeOptions): Promise<string> {
+  if (estimateTokens(diff) <= options.maxTokens) {
+    return diff;
+  }
+
+  const chunks = chunkDiff(diff, options.maxTokens);
+  options.onProgress?.(`📚 Diff is ~${estimateTokens(diff)} tokens, summarizing ${chunks.length} chunks...`);
+  let summaries = await mapWithConcurrency(chunks, options.concurrency, chunk =>
+    options.complete(SUMMARY_PROMPT, chunk)
+  );
+
+  let combined = summaries.join('\n\n');
+  for (let depth = 1; estimateTokens(combined) > options.maxTokens && depth < MAX_SUMMARY_DEPTH; depth++) {
+    const groups = packChunks(summaries.map(summary => `${summary}\n\n`), options.maxTokens);
+    options.onProgress?.(`📚 Condensing ${summaries.length} summaries into ${groups.length}...`);
+    summaries = await mapWithConcurrency(groups, options.concurrency, group =>
+      options.complete(REDUCE_PROMPT, group)
+    );
+    combined = summaries.join('\n\n');
+  }
+
+  return `[The full diff is too large to include; these are summaries of every changed file]\n\n${truncateToTokens(combined, options.maxTokens)}`;
+}
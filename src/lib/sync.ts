@@ -0,0 +1,302 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ConflictHunk, SyncMethod } from './types';
+import { exec, execStream } from './exec';
+import { renderTemplate } from './config';
+import { guardSensitiveText } from './secrets';
+import { mapWithConcurrency } from './summarize';
+import { ask, confirm, isInteractive } from './interactive';
+import { getTargetBranch, resolveBranchRef } from './stack';
+import {
+  chalk,
+  ensureBranchPushed,
+  executeClaudeCommand,
+  getCurrentBranch,
+  getRemote,
+  hasUncommittedChanges,
+  isDebug,
+  isDivergedPushError,
+  loadConfig
+} from './helpers';
+
+const DEFAULT_RESOLVE_PROMPT = 'You are resolving a git conflict in {{file}}. The input shows the lines before the conflict, the conflict itself with both sides and, when available, the common ancestor between ||||||| and =======, then the lines after. The labels on the markers say where each side comes from. Combine the sides so the intent of both changes is kept. For lockfiles and generated files keep the entries from both sides, preferring the newer versions. Output ONLY the lines that replace the whole conflict, without conflict markers, code fences or explanation.';
+
+const CONTEXT_LINES = 10;
+
+// diff3 markers include the common ancestor, which helps the model see what each side changed
+const GIT_CONFLICT_STYLE = ['-c', 'merge.conflictStyle=diff3'];
+
+/**
+ * Split a file into plain lines and conflict hunks
+ */
+export function parseConflicts(content: string): Array<string | ConflictHunk> {
+  const segments: Array<string | ConflictHunk> = [];
+  let hunk: ConflictHunk | null = null;
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+  for (const line of content.split('\n')) {
+    if (!hunk && line.startsWith('<<<<<<<')) {
+      hunk = { oursLabel: line.slice(7).trim(), theirsLabel: '', ours: [], base: null, theirs: [] };
+      section = 'ours';
+    } else if (hunk && section === 'ours' && line.startsWith('|||||||')) {
+      hunk.base = [];
+      section = 'base';
+    } else if (hunk && section !== 'theirs' && line === '=======') {
+      section = 'theirs';
+    } else if (hunk && section === 'theirs' && line.startsWith('>>>>>>>')) {
+      hunk.theirsLabel = line.slice(7).trim();
+      segments.push(hunk);
+      hunk = null;
+    } else if (hunk) {
+      (section === 'base' ? hunk.base! : hunk[section]).push(line);
+    } else {
+      segments.push(line);
+    }
+  }
+  if (hunk) {
+    throw new Error('Unterminated conflict marker');
+  }
+  return segments;
+}
+
+/**
+ * Render a hunk back into conflict marker form
+ */
+function formatHunk(hunk: ConflictHunk): string {
+  return [
+    `<<<<<<< ${hunk.oursLabel}`,
+    ...hunk.ours,
+    ...(hunk.base ? ['|||||||', ...hunk.base] : []),
+    '=======',
+    ...hunk.theirs,
+    `>>>>>>> ${hunk.theirsLabel}`
+  ].join('\n');
+}
+
+/**
+ * Ask the model for the lines that replace one conflict hunk
+ */
+async function resolveHunk(file: string, hunk: ConflictHunk, before: string[], after: string[]): Promise<string[]> {
+  const config = await loadConfig();
+  const prompt = renderTemplate(config.prompts.resolve || DEFAULT_RESOLVE_PROMPT, { file });
+  const input = [
+    `File: ${file}`,
+    'Lines before the conflict:', ...before,
+    'Conflict:', formatHunk(hunk),
+    'Lines after the conflict:', ...after
+  ].join('\n');
+
+  const result = await executeClaudeCommand(prompt, await guardSensitiveText(input, 'conflict', file));
+  const resolved = result.replace(/^```\w*\n?/, '').replace(/\n?```\s*$/, '');
+  if (/^(<<<<<<<|=======$|>>>>>>>)/m.test(resolved)) {
+    throw new Error('The resolution still contains conflict markers');
+  }
+  return resolved === '' ? [] : resolved.split('\n');
+}
+
+/**
+ * Print each conflict of a file with both sides and the proposed resolution
+ */
+function printResolutions(file: string, hunks: ConflictHunk[], resolutions: string[][]): void {
+  console.log(chalk.bold(`\n${file}`));
+  hunks.forEach((hunk, index) => {
+    console.log(chalk.blue(`  Conflict ${index + 1} of ${hunks.length}`));
+    console.log(chalk.gray(`  <<< ${hunk.oursLabel}`));
+    hunk.ours.forEach(line => console.log(chalk.red(`  < ${line}`)));
+    console.log(chalk.gray(`  >>> ${hunk.theirsLabel}`));
+    hunk.theirs.forEach(line => console.log(chalk.red(`  > ${line}`)));
+    console.log(chalk.gray('  === proposed'));
+    resolutions[index].forEach(line => console.log(chalk.green(`  = ${line}`)));
+  });
+  console.log('');
+}
+
+/**
+ * Propose a resolution for one conflicted file and let the user accept, edit or reject it
+ *
+ * Without a terminal the resolution is only used when `acceptUnreviewed` is set,
+ * and is printed so the log shows what was written. Returns true when the file
+ * was resolved and staged.
+ */
+async function resolveFile(file: string, acceptUnreviewed: boolean): Promise<boolean> {
+  const root = await exec('git', ['rev-parse', '--show-toplevel']) as string;
+  const filePath = path.join(root, file);
+  const content = await fs.readFile(filePath, 'utf8').catch(() => null);
+  const segments = content === null ? [] : parseConflicts(content);
+  const hunks = segments.filter((segment): segment is ConflictHunk => typeof segment !== 'string');
+  if (hunks.length === 0) {
+    // Deleted, renamed and binary files conflict without markers
+    console.log(chalk.yellow(`⚠️  ${file} has no conflict markers to resolve (deleted, renamed or binary file)`));
+    return false;
+  }
+
+  console.log(chalk.yellow(`🤖 Resolving ${hunks.length} conflicts in ${file}...`));
+  let resolutions: string[][];
+  try {
+    resolutions = await mapWithConcurrency(hunks, (await loadConfig()).summaryConcurrency, hunk => {
+      const index = segments.indexOf(hunk);
+      const before = segments.slice(Math.max(0, index - CONTEXT_LINES), index).filter((line): line is string => typeof line === 'string');
+      const after = segments.slice(index + 1, index + 1 + CONTEXT_LINES).filter((line): line is string => typeof line === 'string');
+      return resolveHunk(file, hunk, before, after);
+    });
+  } catch (error) {
+    console.log(chalk.yellow(`⚠️  Could not resolve ${file}`));
+    if (error instanceof Error && isDebug) {
+      console.log(chalk.gray(`Error details: ${error.message}`));
+    }
+    return false;
+  }
+
+  const resolved = segments.flatMap(segment => typeof segment === 'string' ? [segment] : resolutions[hunks.indexOf(segment)]).join('\n');
+  printResolutions(file, hunks, resolutions);
+  let answer = acceptUnreviewed ? 'y' : 'n';
+  if (isInteractive()) {
+    answer = (await ask(`Accept resolution for ${file}? [Y]es, (e)dit, (n)o: `)).toLowerCase() || 'y';
+  }
+  if (answer === 'n' || answer === 'no') {
+    return false;
+  }
+
+  await fs.writeFile(filePath, resolved);
+  if (answer === 'e' || answer === 'edit') {
+    const [command, ...args] = (process.env.VISUAL || process.env.EDITOR || 'vi').split(/\s+/);
+    await execStream(command, [...args, filePath]);
+    if (parseConflicts(await fs.readFile(filePath, 'utf8')).some(segment => typeof segment !== 'string')) {
+      console.log(chalk.yellow(`⚠️  ${file} still has conflict markers`));
+      return false;
+    }
+  }
+  await exec('git', ['add', '--', file]);
+  console.log(chalk.green(`✓ Resolved ${file}`));
+  return true;
+}
+
+/**
+ * The rebase or merge currently stopped in this repository, if any
+ */
+async function getOperationInProgress(): Promise<SyncMethod | null> {
+  for (const [gitPath, method] of [['rebase-merge', 'rebase'], ['rebase-apply', 'rebase'], ['MERGE_HEAD', 'merge']] as const) {
+    // --git-path prints a path relative to the cwd
+    const resolved = path.resolve(await exec('git', ['rev-parse', '--git-path', gitPath]) as string);
+    if (await fs.stat(resolved).then(() => true, () => false)) {
+      return method;
+    }
+  }
+  return null;
+}
+
+/**
+ * Run git and return the error instead of throwing, so conflicts can be handled
+ */
+async function runGit(args: string[]): Promise<Error | null> {
+  // GIT_EDITOR=true keeps the existing commit messages when continuing
+  return exec('git', [...GIT_CONFLICT_STYLE, ...args], { env: { GIT_EDITOR: 'true' } }).then(() => null, error => error);
+}
+
+/**
+ * Files git still reports as conflicted
+ */
+async function getUnmergedFiles(): Promise<string[]> {
+  return (await exec('git', ['diff', '--name-only', '--diff-filter=U']) || '').split('\n').filter(Boolean);
+}
+
+/**
+ * Continue a stopped rebase or merge once its conflicts are resolved
+ */
+function continueOperation(method: SyncMethod): Promise<Error | null> {
+  return runGit(method === 'rebase' ? ['rebase', '--continue'] : ['commit', '--no-edit']);
+}
+
+/**
+ * Rebase or merge the current branch onto its target (or its upstream), resolving conflicts with Claude
+ *
+ * Run again while a rebase or merge is stopped to resume it. Returns false when
+ * conflicts were left for the user to resolve by hand.
+ */
+export async function syncBranch(options: { method: SyncMethod; upstream: boolean; acceptResolutions?: boolean }): Promise<boolean> {
+  let method = await getOperationInProgress();
+  let error: Error | null;
+
+  if (method) {
+    console.log(chalk.yellow(`⏳ Resuming the ${method} in progress...`));
+    // When every conflict was already resolved by hand, just carry on
+    error = (await getUnmergedFiles()).length > 0
+      ? new Error(`The ${method} stopped with conflicts`)
+      : await continueOperation(method);
+  } else {
+    if (await hasUncommittedChanges()) {
+      throw new Error('Commit or stash your changes before syncing');
+    }
+    method = options.method;
+    const branch = await getCurrentBranch();
+    const remote = await getRemote();
+    console.log(chalk.yellow(`⏳ Fetching ${remote}...`));
+    await exec('git', ['fetch', remote]);
+
+    let onto: string;
+    if (options.upstream) {
+      onto = await exec('git', ['rev-parse', '--abbrev-ref', `${branch}@{upstream}`], { throwOnError: false }) || '';
+      if (!onto) {
+        throw new Error(`${branch} has no upstream branch`);
+      }
+    } else {
+      onto = await resolveBranchRef(await getTargetBranch(branch));
+    }
+
+    console.log(chalk.yellow(`⏳ ${method === 'rebase' ? 'Rebasing' : 'Merging'} ${branch} ${method === 'rebase' ? 'onto' : 'with'} ${onto}...`));
+    error = await runGit(method === 'rebase' ? ['rebase', onto] : ['merge', '--no-edit', onto]);
+  }
+
+  while (error) {
+    const files = await getUnmergedFiles();
+    if (files.length === 0) {
+      throw error;
+    }
+    // --yes is not enough: resolutions are code nobody has read
+    if (!isInteractive() && !options.acceptResolutions) {
+      console.log(chalk.yellow('⚠️  Conflicts need review; run in a terminal without --yes, or pass --accept-ai-resolutions to accept the proposed resolutions unreviewed'));
+      printManualSteps(method);
+      return false;
+    }
+
+    for (const file of files) {
+      if (!(await resolveFile(file, !!options.acceptResolutions))) {
+        printManualSteps(method);
+        return false;
+      }
+    }
+    error = await continueOperation(method);
+  }
+
+  console.log(chalk.green(`✓ ${method === 'rebase' ? 'Rebased' : 'Merged'} successfully`));
+  return true;
+}
+
+/**
+ * Explain how to finish a stopped rebase or merge by hand
+ */
+function printManualSteps(method: SyncMethod): void {
+  console.log(chalk.yellow('\nTo continue:'));
+  console.log(chalk.gray('  1. Resolve the remaining conflicts and stage the files'));
+  console.log(chalk.gray(`  2. Run:  ${method === 'rebase' ? 'git rebase --continue' : 'git commit --no-edit'}`));
+  console.log(chalk.gray('     or:   gh-claude sync   (to resolve the rest with Claude)'));
+  console.log(chalk.gray(`  To give up: git ${method} --abort\n`));
+}
+
+/**
+ * Push the branch, offering to sync and retry when the remote branch has new commits
+ */
+export async function pushWithSync(): Promise<void> {
+  try {
+    await ensureBranchPushed();
+  } catch (error) {
+    if (!isDivergedPushError(error) || !isInteractive() ||
+        !(await confirm('Rebase onto the remote branch now, resolving conflicts with Claude?'))) {
+      throw error;
+    }
+    if (!(await syncBranch({ method: 'rebase', upstream: true }))) {
+      throw new Error('Sync stopped with unresolved conflicts');
+    }
+    await ensureBranchPushed();
+  }
+}
@@ -5,9 +5,391 @@ export interface AuthResult {
 
 export interface ExecOptions {
   throwOnError?: boolean;
-  shell?: boolean;
   stdio?: 'inherit' | 'pipe';
   timeout?: number;
   input?: string;
   env?: Record<string, string>;
-}
\ No newline at end of file
+}
+
+export type ProviderName = 'claude-cli' | 'anthropic' | 'openai' | 'ollama';
+
+export interface ProviderSettings {
+  provider?: ProviderName | 'auto';
+  model?: string;
+  baseUrl?: string;
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  model: string | null;
+  complete(prompt: string, input: string): Promise<string>;
+}
+
+export interface PromptTemplates {
+  commit?: string;
+  pr?: string;
+  release?: string;
+  review?: string;
+  branch?: string;
+  diagnose?: string;
+  resolve?: string;
+}
+
+export type SecretScanMode = 'block' | 'redact' | 'off';
+
+export type ReviewSeverity = 'nit' | 'minor' | 'major' | 'critical';
+
+export type MergeStrategy = 'squash' | 'rebase' | 'merge';
+
+// How commit subjects are written: `feat(api): ...`, `PROJ-123: ...`, `✨ ...` or plain sentences
+export type CommitStyle = 'conventional' | 'ticket' | 'gitmoji' | 'plain';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Spending limits in USD for the current repository
+export interface UsageBudget {
+  daily?: number;
+  monthly?: number;
+  action?: 'warn' | 'refuse';
+}
+
+export interface RepoConfig extends ProviderSettings {
+  remote?: string;
+  baseBranch?: string;
+  commitTypes?: string[];
+  maxSubjectLength?: number;
+  validateCommits?: boolean;
+  commitStyle?: CommitStyle | 'auto';
+  maxCommitTokens?: number;
+  maxPRTokens?: number;
+  summaryConcurrency?: number;
+  secretScan?: SecretScanMode;
+  prTemplate?: string | false;
+  prChangesSinceUpdate?: boolean;
+  reviewSeverity?: ReviewSeverity;
+  branchPrefixes?: string[];
+  mergeStrategy?: MergeStrategy;
+  cacheTtlHours?: number;
+  cacheMaxSizeMb?: number;
+  budget?: UsageBudget;
+  modelPrices?: Record<string, ModelPrice>;
+  // Profile from the user config to use in this repository
+  profile?: string;
+  prompts?: PromptTemplates;
+}
+
+export interface ProfileCredentials {
+  anthropicApiKey?: string;
+  openaiApiKey?: string;
+}
+
+// A named set of credentials and provider settings, as for work and personal accounts
+export interface ProfileConfig extends ProviderSettings, ProfileCredentials {}
+
+export interface UserConfig extends RepoConfig, ProfileCredentials {
+  profiles?: Record<string, ProfileConfig>;
+}
+
+export interface ActiveProfile {
+  // null for the default profile, the top-level keys of the user config
+  name: string | null;
+  source: 'flag' | 'env' | 'repo' | null;
+}
+
+export interface ToolConfig extends ProviderSettings {
+  remote: string;
+  baseBranch?: string;
+  commitTypes: string[];
+  maxSubjectLength: number;
+  validateCommits: boolean;
+  commitStyle: CommitStyle | 'auto';
+  maxCommitTokens: number;
+  maxPRTokens: number;
+  summaryConcurrency: number;
+  secretScan: SecretScanMode;
+  prTemplate?: string | false;
+  prChangesSinceUpdate: boolean;
+  reviewSeverity: ReviewSeverity;
+  branchPrefixes: string[];
+  mergeStrategy: MergeStrategy;
+  cacheTtlHours: number;
+  cacheMaxSizeMb: number;
+  budget?: UsageBudget;
+  modelPrices: Record<string, ModelPrice>;
+  // Name of the active profile, if any
+  profile?: string;
+  prompts: PromptTemplates;
+}
+
+export interface DiffHunk {
+  header: string;
+  lines: string[];
+}
+
+export interface DiffFile {
+  path: string;
+  oldPath: string;
+  header: string[];
+  hunks: DiffHunk[];
+  binary: boolean;
+}
+
+export interface CommitGroup {
+  message: string;
+  hunks: string[];
+}
+
+export interface CommitFooter {
+  token: string;
+  value: string;
+}
+
+export interface ParsedCommit {
+  header: string;
+  type: string;
+  scope: string | null;
+  breaking: boolean;
+  description: string;
+  body: string | null;
+  footers: CommitFooter[];
+}
+
+export interface CommitLintRules {
+  types: string[];
+  maxSubjectLength: number;
+  maxBodyLineLength: number;
+}
+
+export interface SummarizeOptions {
+  maxTokens: number;
+  concurrency: number;
+  complete: (prompt: string, input: string) => Promise<string>;
+  onProgress?: (message: string) => void;
+}
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  pattern: string;
+  flags?: string;
+}
+
+export interface SecretsFile {
+  rules?: SecretRule[];
+  allow?: string[];
+  ignorePaths?: string[];
+}
+
+export interface SecretFinding {
+  rule: string;
+  description: string;
+  file: string | null;
+  line: number | null;
+  match: string;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  state: 'OPEN' | 'MERGED' | 'CLOSED';
+  baseRefName: string;
+  body: string;
+}
+
+export interface ReleaseCommit {
+  sha: string;
+  message: string;
+  parsed: ParsedCommit | null;
+  pr: number | null;
+}
+
+export interface MergedPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  author: string | null;
+  sha: string | null;
+}
+
+export interface ReleaseGroup {
+  type: string;
+  title: string;
+  commits: ReleaseCommit[];
+}
+
+export type ReleaseBump = 'major' | 'minor' | 'patch';
+
+export interface ReviewFinding {
+  file: string;
+  line: number;
+  severity: ReviewSeverity;
+  message: string;
+}
+
+export interface IssueInfo {
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  labels: string[];
+}
+
+export interface CheckInfo {
+  name: string;
+  // gh's summary of the check state: pass, fail, pending, skipping or cancel
+  bucket: string;
+  link: string;
+}
+
+export interface FailedJob {
+  check: string;
+  link: string;
+  jobId: string;
+  // Trimmed log of the failed steps
+  log: string;
+}
+
+export interface UsageRecord {
+  timestamp: string;
+  command: string;
+  // owner/name from the remote URL, or the directory name
+  repo: string | null;
+  provider: ProviderName;
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  // Estimated USD, null when the model's price is unknown
+  cost: number | null;
+}
+
+export interface UsageTotals {
+  key: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+  // Calls whose cost is not included because the model's price is unknown
+  unpriced: number;
+}
+
+export type SyncMethod = 'rebase' | 'merge';
+
+export interface ConflictHunk {
+  // Labels from the conflict markers, as in `HEAD` or `abc123 (feat: add login)`
+  oursLabel: string;
+  theirsLabel: string;
+  ours: string[];
+  // Common ancestor lines, present with the diff3 conflict style
+  base: string[] | null;
+  theirs: string[];
+}
+
+export type MergeOutcome = 'merged' | 'checks-failed' | 'closed' | 'blocked' | 'timeout';
+
+export interface MergeWaitResult {
+  outcome: MergeOutcome;
+  // GitHub's mergeStateStatus when the wait ended, as in BLOCKED or DIRTY
+  mergeState: string;
+  checks: CheckInfo[];
+}
+
+export interface RepoStyle {
+  style: CommitStyle;
+  // Whether the style came from the history rather than config
+  detected: boolean;
+  // Recent commit messages written in the style, newest first
+  examples: string[];
+}
+
+export interface DoctorCheck {
+  name: string;
+  status: 'ok' | 'warn' | 'fail';
+  detail: string;
+  // What to run or change to fix a warning or failure
+  fix?: string;
+}
+
+export interface CommandFlag {
+  name: string;
+  alias?: string;
+  // Placeholder shown in help when the flag takes a value, as in `--tag <version>`
+  value?: string;
+  choices?: string[];
+  description: string;
+}
+
+export interface ParsedArgs {
+  flags: Record<string, string | boolean>;
+  positional: string[];
+}
+
+export interface Command {
+  name: string;
+  // Standalone binary kept as a shortcut, as in `ghc` for `commit`
+  bin?: string;
+  summary: string;
+  usage?: string;
+  description?: string[];
+  flags: CommandFlag[];
+  // Fixed values for the first positional argument, used for completion
+  subcommands?: string[];
+  examples?: string[];
+  run(args: ParsedArgs): Promise<void>;
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+}
+
+export interface CommandResult {
+  ok: boolean;
+  exitCode: number;
+  command: string;
+  branch?: string;
+  commit?: CommitInfo;
+  // Every commit created, when `--split` creates more than one
+  commits?: CommitInfo[];
+  pushed?: boolean;
+  pr?: {
+    url: string;
+    // 'unchanged' when push only reports the existing PR
+    action: 'created' | 'updated' | 'unchanged';
+  };
+  autoMerge?: {
+    enabled: boolean;
+    strategy?: MergeStrategy;
+    error?: string;
+  };
+  // Set by `ghpa --wait`
+  merge?: MergeWaitResult;
+  // Set by `usage`
+  usage?: {
+    period: string;
+    byDay: UsageTotals[];
+    byRepo: UsageTotals[];
+    total: UsageTotals;
+  };
+  // Set by `doctor`
+  checks?: DoctorCheck[];
+  // Set by `release`; `url` only once the GitHub release is created
+  release?: {
+    tag: string;
+    notes: string;
+    url: string | null;
+  };
+  // Set by `auth`
+  auth?: {
+    profile: string | null;
+    provider: string;
+    keySource: string | null;
+    profiles: string[];
+  };
+  error?: string;
+}
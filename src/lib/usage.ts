@@ -0,0 +1,199 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import { AIProvider, ModelPrice, ToolConfig, UsageRecord, UsageTotals } from './types';
+import { exec } from './exec';
+import { getRepoRoot, USER_CONFIG_DIR } from './config';
+import { estimateTokens } from './summarize';
+
+export const USAGE_LOG = path.join(USER_CONFIG_DIR, 'usage.jsonl');
+
+// List prices in USD per million tokens, matched by model name prefix; override with `modelPrices`
+const MODEL_PRICES: Array<[string, ModelPrice]> = [
+  ['claude-opus-4-5', { input: 5, output: 25 }],
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-haiku-4', { input: 1, output: 5 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }]
+];
+
+// The Claude CLI does not report its model, so its calls are priced as its default model
+const CLAUDE_CLI_PRICE_MODEL = 'claude-sonnet-4';
+
+let commandName = path.basename(process.argv[1] || 'unknown', path.extname(process.argv[1] || ''));
+let repoPromise: Promise<string | null> | null = null;
+// Spending already logged for the budget periods, plus calls made by this process
+let spentPromise: Promise<{ day: number; month: number }> | null = null;
+let budgetWarned = false;
+let unpricedWarned = false;
+
+/**
+ * Set the command name recorded with each call
+ */
+export function setUsageCommand(name: string): void {
+  commandName = name;
+}
+
+/**
+ * Identify the current repository as owner/name, falling back to the directory name
+ */
+function getRepoName(remote: string): Promise<string | null> {
+  if (!repoPromise) {
+    repoPromise = (async () => {
+      const url = await exec('git', ['remote', 'get-url', remote], { throwOnError: false });
+      const match = url?.match(/[:/]([^/:]+\/[^/]+?)(\.git)?\/?$/);
+      if (match) {
+        return match[1];
+      }
+      const root = await getRepoRoot();
+      return root ? path.basename(root) : null;
+    })();
+  }
+  return repoPromise;
+}
+
+/**
+ * Look up the price of a provider's model, preferring configured prices
+ */
+function getModelPrice(provider: AIProvider, config: ToolConfig): ModelPrice | null {
+  const model = provider.model || (provider.name === 'claude-cli' ? CLAUDE_CLI_PRICE_MODEL : null);
+  if (!model) {
+    return null;
+  }
+  if (config.modelPrices[model]) {
+    return config.modelPrices[model];
+  }
+  return MODEL_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1] || null;
+}
+
+/**
+ * Read every usage record, skipping lines that do not parse
+ */
+export async function readUsage(): Promise<UsageRecord[]> {
+  const content = await fs.readFile(USAGE_LOG, 'utf8').catch(() => '');
+  return content.split('\n').filter(Boolean).flatMap(line => {
+    try {
+      return [JSON.parse(line) as UsageRecord];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Sum the logged cost for this repository today and this month
+ */
+function getSpent(repo: string | null): Promise<{ day: number; month: number }> {
+  if (!spentPromise) {
+    spentPromise = (async () => {
+      const today = new Date().toISOString().slice(0, 10);
+      const spent = { day: 0, month: 0 };
+      for (const record of await readUsage()) {
+        if (record.repo !== repo || record.cost === null) {
+          continue;
+        }
+        if (record.timestamp.startsWith(today.slice(0, 7))) {
+          spent.month += record.cost;
+        }
+        if (record.timestamp.startsWith(today)) {
+          spent.day += record.cost;
+        }
+      }
+      return spent;
+    })();
+  }
+  return spentPromise;
+}
+
+/**
+ * Warn or throw when the repository's daily or monthly budget has been used up
+ */
+export async function checkBudget(config: ToolConfig, provider: AIProvider): Promise<void> {
+  const { budget } = config;
+  if (!budget || (budget.daily === undefined && budget.monthly === undefined)) {
+    return;
+  }
+  if (!getModelPrice(provider, config) && !unpricedWarned) {
+    unpricedWarned = true;
+    const model = provider.model || provider.name;
+    console.log(chalk.yellow(`⚠️  No price known for ${model}, so its calls do not count toward the budget. Set "modelPrices": { "${model}": { "input": ..., "output": ... } } to enforce it.`));
+  }
+
+  const repo = await getRepoName(config.remote);
+  const spent = await getSpent(repo);
+  const exceeded = budget.daily !== undefined && spent.day >= budget.daily
+    ? `Daily AI budget of $${budget.daily} for ${repo} used up ($${spent.day.toFixed(2)} spent today)`
+    : budget.monthly !== undefined && spent.month >= budget.monthly
+      ? `Monthly AI budget of $${budget.monthly} for ${repo} used up ($${spent.month.toFixed(2)} spent this month)`
+      : null;
+  if (!exceeded) {
+    return;
+  }
+
+  if (budget.action === 'refuse') {
+    throw new Error(`${exceeded}. Raise "budget" in .ghclauderc to continue.`);
+  }
+  if (!budgetWarned) {
+    budgetWarned = true;
+    console.log(chalk.yellow(`⚠️  ${exceeded}`));
+  }
+}
+
+/**
+ * Append one AI call to the usage log
+ *
+ * Token counts are estimates from the text length, since not every backend reports them.
+ */
+export async function recordUsage(config: ToolConfig, provider: AIProvider, prompt: string, input: string, output: string, latencyMs: number): Promise<void> {
+  const price = getModelPrice(provider, config);
+  const inputTokens = estimateTokens(prompt) + estimateTokens(input);
+  const outputTokens = estimateTokens(output);
+  const cost = price ? (inputTokens * price.input + outputTokens * price.output) / 1000000 : null;
+  const record: UsageRecord = {
+    timestamp: new Date().toISOString(),
+    command: commandName,
+    repo: await getRepoName(config.remote),
+    provider: provider.name,
+    model: provider.model,
+    inputTokens,
+    outputTokens,
+    latencyMs,
+    cost
+  };
+
+  if (spentPromise && cost !== null) {
+    const spent = await spentPromise;
+    spent.day += cost;
+    spent.month += cost;
+  }
+  await fs.mkdir(USER_CONFIG_DIR, { recursive: true });
+  await fs.appendFile(USAGE_LOG, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+}
+
+/**
+ * Add up records by a key such as the day or the repository
+ */
+export function totalUsage(records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageTotals[] {
+  const totals = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const total = totals.get(key) || { key, calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0, unpriced: 0 };
+    total.calls++;
+    total.inputTokens += record.inputTokens;
+    total.outputTokens += record.outputTokens;
+    total.latencyMs += record.latencyMs;
+    if (record.cost === null) {
+      total.unpriced++;
+    } else {
+      total.cost += record.cost;
+    }
+    totals.set(key, total);
+  }
+  return [...totals.values()].sort((a, b) => a.key.localeCompare(b.key));
+}